@@ -1,41 +1,486 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ToolType, DrawingState } from './types';
+import { BrushPreset, ToolType, ShapeType, SymmetryMode, Symmetry, DrawingState, DrawingDocument, HistoryState } from './types';
 import { Toolbar } from './components/Toolbar';
-import { ColorPicker } from './components/ColorPicker';
-import { Canvas } from './components/Canvas';
-import { convertImageToColoringPage } from './services/gemini';
+import { COLORS, ColorPicker } from './components/ColorPicker';
+import { StickerPicker } from './components/StickerPicker';
+import { Canvas, CanvasController, CanvasSnapshot } from './components/Canvas';
+import { Gallery } from './components/Gallery';
+import { ExportDialog } from './components/ExportDialog';
+import { SettingsDialog } from './components/SettingsDialog';
+import { CropDialog } from './components/CropDialog';
+import { VariantPicker } from './components/VariantPicker';
+import { ReplayDialog } from './components/ReplayDialog';
+import { ParentGate } from './components/ParentGate';
+import { ParentalDialog } from './components/ParentalDialog';
+import { TimesUp } from './components/TimesUp';
+import { ActivityPicker } from './components/ActivityPicker';
+import { CollabDialog } from './components/CollabDialog';
+import { PROVIDERS, ProviderSettings, createColoringPageProvider, normalizeProviderSettings } from './services/providers';
+import {
+  MagicImportOptions,
+  generateColoringPage,
+  isAbortError,
+  normalizeMagicImportOptions,
+} from './services/coloringPage';
+import { convertImageToLineArt } from './services/lineArt';
+import {
+  ARTIST_COLORS,
+  CollabError,
+  CollabSession,
+  CollabSettings,
+  CollabUser,
+  createRoomCode,
+  joinRoom,
+  normalizeCollabSettings,
+  normalizeRoomCode,
+} from './services/collab';
+import { DOCUMENT_FILE_EXTENSION, createDefaultDocument, parseDocument, serializeDocument } from './utils/document';
+import {
+  DrawingSummary,
+  SETTING_COLLAB,
+  SETTING_CURRENT_DRAWING,
+  SETTING_DRAWING_STATE,
+  SETTING_MAGIC_IMPORT,
+  SETTING_PALETTES,
+  SETTING_PARENTAL,
+  SETTING_PROVIDER,
+  SETTING_SESSION,
+  createDrawing,
+  createThumbnail,
+  deleteDrawing,
+  duplicateDrawing,
+  getNextDrawingName,
+  listDrawings,
+  loadDrawing,
+  loadSetting,
+  migrateLocalStorage,
+  renameDrawing,
+  saveDrawing,
+  saveSetting,
+} from './utils/gallery';
+import { ExportOptions, getExportFileName, getLineArtSource, getReplayFileName, hasLineArt } from './utils/export';
+import { exportReplayGif } from './utils/replay';
+import { ColorByNumber, createColorByNumber, getDoneRegions } from './utils/colorByNumber';
+import {
+  Activity,
+  ActivityProgress,
+  STARTER_ACTIVITIES,
+  getTraceStars,
+  isActivityComplete,
+  startActivity,
+} from './utils/activities';
+import {
+  DEFAULT_PARENTAL_SETTINGS,
+  DrawingSession,
+  ParentalSettings,
+  RestrictedAction,
+  SESSION_RESET_MS,
+  normalizeParentalSettings,
+} from './utils/parental';
+import { DEFAULT_FILL_OPTIONS } from './utils/floodFill';
+import { setColorOpacity } from './utils/color';
+import { PaletteSettings, addRecentColor, normalizePaletteSettings } from './utils/palettes';
+import { DEFAULT_STICKER_ID } from './utils/stickers';
+import { CropRect, ImageError, loadPhoto, preparePhoto } from './utils/image';
+import { SvgError, isSvgFile, sanitizeSvg, svgToDataUrl } from './utils/svg';
 import confetti from 'canvas-confetti';
+import { Images, Settings, ShieldCheck, Users, X } from 'lucide-react';
+
+const DEFAULT_DRAWING_STATE: DrawingState = {
+  color: '#000000',
+  opacity: 100,
+  tool: ToolType.PENCIL,
+  brushSize: 5,
+  brushPreset: BrushPreset.ROUND,
+  fillTolerance: DEFAULT_FILL_OPTIONS.tolerance,
+  gapClosing: DEFAULT_FILL_OPTIONS.gapClosing,
+  penOnly: false,
+  palmRejection: true,
+  shape: ShapeType.CIRCLE,
+  shapeFilled: false,
+  lockAspect: false,
+  sticker: DEFAULT_STICKER_ID,
+  symmetry: { mode: SymmetryMode.NONE, segments: 6 },
+  showSymmetryGuides: true,
+};
+
+// Save the drawing this long after the last change
+const AUTOSAVE_DELAY_MS = 1000;
+// Check the color-by-number progress this long after the last change
+const COLOR_BY_NUMBER_CHECK_MS = 200;
+// A color joins the recent row once it has been kept this long, dragging through the custom picker doesn't flood it
+const RECENT_COLOR_DELAY_MS = 1000;
+// Room codes are random, so a taken one is rare and worth a few more tries
+const ROOM_CODE_ATTEMPTS = 3;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  // Give the browser a moment to start the download before the URL goes away
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
 
 function App() {
-  const [drawingState, setDrawingState] = useState<DrawingState>(() => {
-    // Try to load state from localStorage
-    const saved = localStorage.getItem('little-picasso-state');
-    if (saved) {
-        try {
-            return JSON.parse(saved);
-        } catch (e) {
-            console.error("Failed to parse saved state");
-        }
-    }
-    return {
-        color: '#000000',
-        tool: ToolType.PENCIL,
-        brushSize: 5,
-    };
-  });
+  const [drawingState, setDrawingState] = useState<DrawingState>(DEFAULT_DRAWING_STATE);
+  // Settings are only saved once the stored ones have been loaded, so defaults don't overwrite them
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [paletteSettings, setPaletteSettings] = useState<PaletteSettings>(() => normalizePaletteSettings(undefined));
+  // Tool to go back to once the eyedropper picked a color
+  const drawingToolRef = useRef(DEFAULT_DRAWING_STATE.tool);
   
-  const [triggerClear, setTriggerClear] = useState(0);
-  const [triggerUndo, setTriggerUndo] = useState(0);
-  const [importedSvg, setImportedSvg] = useState<string | null>(null);
+  const [historyState, setHistoryState] = useState<HistoryState>({ canUndo: false, canRedo: false });
   const [isGenerating, setIsGenerating] = useState(false);
+  // Photo waiting in the crop step before it's converted
+  const [pendingPhoto, setPendingPhoto] = useState<HTMLCanvasElement | null>(null);
+  // Coloring pages made from one photo, waiting for the kid to pick one
+  const [variants, setVariants] = useState<string[] | null>(null);
+  const [magicImportOptions, setMagicImportOptions] = useState<MagicImportOptions>(() => normalizeMagicImportOptions(undefined));
   
-  // Hidden file input ref
+  // Everything done to the drawing goes through the canvas controller
+  const canvasRef = useRef<CanvasController>(null);
+
+  // Gallery of saved drawings, see utils/gallery.ts
+  const [drawings, setDrawings] = useState<DrawingSummary[]>([]);
+  const [currentDrawingId, setCurrentDrawingId] = useState<string | null>(null);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Which service Magic Import uses, see services/providers.ts
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => normalizeProviderSettings(undefined));
+  const [isExporting, setIsExporting] = useState(false);
+  // Replay of the open drawing, a snapshot taken when the dialog opens
+  const [replayDocument, setReplayDocument] = useState<DrawingDocument | null>(null);
+  const [gifProgress, setGifProgress] = useState<number | null>(null);
+  const [parentalSettings, setParentalSettings] = useState<ParentalSettings>(DEFAULT_PARENTAL_SETTINGS);
+  const [isParentalOpen, setIsParentalOpen] = useState(false);
+  // Action waiting for a grown-up to pass the PIN or math question
+  const [parentGate, setParentGate] = useState<{ reason: string; onUnlock: () => void } | null>(null);
+  const [session, setSession] = useState<DrawingSession | null>(null);
+  const [isTimeUp, setIsTimeUp] = useState(false);
+  // Numbered regions of the coloring page while coloring by number
+  const [colorByNumber, setColorByNumber] = useState<ColorByNumber | null>(null);
+  // Labels of the numbered regions already painted in their color
+  const [doneRegions, setDoneRegions] = useState<Set<number>>(new Set());
+  const [isActivityPickerOpen, setIsActivityPickerOpen] = useState(false);
+  // Dot-to-dot or tracing activity shown over the drawing
+  const [activity, setActivity] = useState<ActivityProgress | null>(null);
+  const [collabSettings, setCollabSettings] = useState<CollabSettings>(() => normalizeCollabSettings(undefined));
+  // Room the open drawing is shared in, null when drawing alone
+  const [collab, setCollab] = useState<CollabSession | null>(null);
+  const [collabUsers, setCollabUsers] = useState<CollabUser[]>([]);
+  const [isCollabOpen, setIsCollabOpen] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+  // Shown until the next successful save, so a full disk doesn't go unnoticed
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const currentDrawingIdRef = useRef<string | null>(null);
+  // Serialized document as last stored, opening a drawing doesn't count as a change
+  const lastSavedDocument = useRef<string | null>(null);
+  const autosaveTimer = useRef<number | undefined>(undefined);
+  // Coloring page the numbers belong to, the activity ends when it goes away
+  const colorByNumberRef = useRef<{ activity: ColorByNumber; source: string; isComplete: boolean } | null>(null);
+  const colorByNumberTimer = useRef<number | undefined>(undefined);
+  // Same session as `collab`, for leaving the room from async handlers
+  const collabRef = useRef<CollabSession | null>(null);
+  // This artist's cursor color on the other tablets
+  const artistColor = useRef(ARTIST_COLORS[Math.floor(Math.random() * ARTIST_COLORS.length)]);
+
+  // Hidden file input refs
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Whether the picked photo goes to the AI or is traced on the device
+  const importModeRef = useRef<'ai' | 'trace'>('ai');
+  // Cancels the Magic Import in progress
+  const importAbortRef = useRef<AbortController | null>(null);
+  // Stops recording the GIF when the replay is closed
+  const gifAbortRef = useRef<AbortController | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  const reportStorageError = (e: unknown) => {
+    console.error("Failed to save", e);
+    setStorageError(e instanceof Error ? e.message : "Your drawing could not be saved.");
+  };
+
+  // Show a drawing from the gallery on the canvas and remember it as the open one
+  const showDrawing = (id: string, doc: DrawingDocument) => {
+    currentDrawingIdRef.current = id;
+    lastSavedDocument.current = serializeDocument(doc);
+    setCurrentDrawingId(id);
+    canvasRef.current?.loadDocument(doc);
+    // Activities are placed on the page they were started on
+    setActivity(null);
+    // The room shares the drawing that was open, not this one
+    leaveRoom();
+    saveSetting(SETTING_CURRENT_DRAWING, id).catch(reportStorageError);
+  };
+
+  const getDocument = () => canvasRef.current?.getSnapshot().document ?? null;
+
+  const refreshDrawings = async () => {
+    try {
+      setDrawings(await listDrawings());
+    } catch (e) {
+      console.error("Failed to list drawings", e);
+    }
+  };
+
+  // Load settings and the last open drawing, moving older localStorage data in first
+  useEffect(() => {
+    const init = async () => {
+      try {
+        await migrateLocalStorage();
+        const savedState = await loadSetting<Partial<DrawingState>>(SETTING_DRAWING_STATE);
+        // Fill in settings added since the state was saved
+        if (savedState) setDrawingState({ ...DEFAULT_DRAWING_STATE, ...savedState });
+        setProviderSettings(normalizeProviderSettings(await loadSetting<Partial<ProviderSettings>>(SETTING_PROVIDER)));
+        setMagicImportOptions(normalizeMagicImportOptions(await loadSetting<Partial<MagicImportOptions>>(SETTING_MAGIC_IMPORT)));
+        setParentalSettings(normalizeParentalSettings(await loadSetting<Partial<ParentalSettings>>(SETTING_PARENTAL)));
+        setCollabSettings(normalizeCollabSettings(await loadSetting<Partial<CollabSettings>>(SETTING_COLLAB)));
+        setPaletteSettings(normalizePaletteSettings(await loadSetting<Partial<PaletteSettings>>(SETTING_PALETTES)));
+        // Reloading the page doesn't reset the drawing time, only a long break does
+        const savedSession = await loadSetting<DrawingSession>(SETTING_SESSION);
+        if (savedSession && Date.now() - savedSession.startedAt < SESSION_RESET_MS) setSession(savedSession);
+        else startSession();
+
+        let list = await listDrawings();
+        const savedId = await loadSetting<string>(SETTING_CURRENT_DRAWING);
+        const current = list.find((drawing) => drawing.id === savedId) ?? list[0];
+        if (current) {
+          try {
+            showDrawing(current.id, await loadDrawing(current.id));
+            setDrawings(list);
+            return;
+          } catch (e) {
+            console.error("Failed to open saved drawing", e);
+          }
+        }
+
+        // Nothing to open, keep the blank sheet the canvas started with
+        const doc = getDocument() ?? createDefaultDocument(window.innerHeight > window.innerWidth);
+        const created = await createDrawing(getNextDrawingName(list), doc);
+        showDrawing(created.id, doc);
+        setDrawings([created, ...list]);
+      } catch (e) {
+        reportStorageError(e);
+      } finally {
+        setSettingsLoaded(true);
+      }
+    };
+    init();
+  }, []);
+
+  // Save settings whenever they change
+  useEffect(() => {
+    if (!settingsLoaded) return;
+    saveSetting(SETTING_DRAWING_STATE, drawingState).catch(reportStorageError);
+  }, [drawingState, settingsLoaded]);
+
+  useEffect(() => {
+    if (!settingsLoaded) return;
+    saveSetting(SETTING_PALETTES, paletteSettings).catch(reportStorageError);
+  }, [paletteSettings, settingsLoaded]);
+
+  useEffect(() => {
+    if (!settingsLoaded) return;
+    const timer = window.setTimeout(() => {
+      setPaletteSettings(prev => ({ ...prev, recentColors: addRecentColor(prev.recentColors, drawingState.color) }));
+    }, RECENT_COLOR_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [drawingState.color, settingsLoaded]);
+
+  const flushAutosave = async () => {
+    window.clearTimeout(autosaveTimer.current);
+    const id = currentDrawingIdRef.current;
+    const doc = getDocument();
+    if (!id || !doc) return;
+    const serialized = serializeDocument(doc);
+    if (serialized === lastSavedDocument.current) return;
+
+    const layers = canvasRef.current?.getLayers();
+    try {
+      await saveDrawing(id, doc, layers ? createThumbnail(layers.paint, layers.lineArt) : null);
+      lastSavedDocument.current = serialized;
+      setStorageError(null);
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  const handleCanvasChange = ({ history }: CanvasSnapshot) => {
+    setHistoryState(history);
+    window.clearTimeout(autosaveTimer.current);
+    autosaveTimer.current = window.setTimeout(flushAutosave, AUTOSAVE_DELAY_MS);
+    if (colorByNumberRef.current) {
+      window.clearTimeout(colorByNumberTimer.current);
+      colorByNumberTimer.current = window.setTimeout(checkColorByNumber, COLOR_BY_NUMBER_CHECK_MS);
+    }
+  };
+
+  // Subscribed again after every render, so the handler always sees the latest state
+  useEffect(() => canvasRef.current?.subscribe(handleCanvasChange));
+
+  // Don't lose the last strokes when the tab is closed or hidden
+  useEffect(() => {
+    const handleHide = () => {
+      if (document.visibilityState === 'hidden') flushAutosave();
+    };
+    document.addEventListener('visibilitychange', handleHide);
+    window.addEventListener('pagehide', flushAutosave);
+    return () => {
+      document.removeEventListener('visibilitychange', handleHide);
+      window.removeEventListener('pagehide', flushAutosave);
+    };
+  }, []);
+
+  const handleSaveProviderSettings = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    setIsSettingsOpen(false);
+    saveSetting(SETTING_PROVIDER, settings).catch(reportStorageError);
+  };
+
+  const startSession = () => {
+    const started: DrawingSession = { startedAt: Date.now() };
+    setSession(started);
+    setIsTimeUp(false);
+    saveSetting(SETTING_SESSION, started).catch(reportStorageError);
+  };
+
+  // Show the time's up screen once the drawing time runs out
+  useEffect(() => {
+    const limit = parentalSettings.sessionMinutes * 60 * 1000;
+    if (!session || !limit) {
+      setIsTimeUp(false);
+      return;
+    }
+    const check = () => {
+      if (Date.now() - session.startedAt < limit) return;
+      setIsTimeUp(true);
+      flushAutosave();
+    };
+    check();
+    const timer = window.setInterval(check, 10 * 1000);
+    return () => window.clearInterval(timer);
+  }, [session, parentalSettings.sessionMinutes]);
+
+  // Switch away from tools and colors a grown-up turned off
+  useEffect(() => {
+    const { tools, colors } = parentalSettings;
+    if (!tools.includes(drawingState.tool)) setDrawingState(prev => ({ ...prev, tool: tools[0] }));
+    if (colors.length > 0 && !colors.includes(drawingState.color)) setDrawingState(prev => ({ ...prev, color: colors[0] }));
+  }, [parentalSettings, drawingState.tool, drawingState.color]);
+
+  const askGrownUp = (reason: string, onUnlock: () => void) => {
+    setParentGate({ reason, onUnlock });
+  };
+
+  /**
+   * Runs `action` right away, once a grown-up says OK, or never, depending on
+   * how the grown-up settings restrict it.
+   */
+  const runRestricted = (restriction: RestrictedAction, reason: string, action: () => void) => {
+    const mode = parentalSettings.restrictions[restriction];
+    if (mode === 'hide') return;
+    if (mode === 'lock') askGrownUp(reason, action);
+    else action();
+  };
+
+  const handleSaveParentalSettings = (settings: ParentalSettings) => {
+    // A new time limit counts from now
+    if (settings.sessionMinutes !== parentalSettings.sessionMinutes) startSession();
+    setParentalSettings(settings);
+    setIsParentalOpen(false);
+    saveSetting(SETTING_PARENTAL, settings).catch(reportStorageError);
+  };
+
+  const handleMagicImportOptionsChange = (options: MagicImportOptions) => {
+    setMagicImportOptions(options);
+    saveSetting(SETTING_MAGIC_IMPORT, options).catch(reportStorageError);
+  };
+
+  const handleOpenGallery = async () => {
+    await flushAutosave();
+    await refreshDrawings();
+    setIsGalleryOpen(true);
+  };
+
+  const handleNewDrawing = async () => {
+    await flushAutosave();
+    try {
+      const doc = createDefaultDocument(window.innerHeight > window.innerWidth);
+      const created = await createDrawing(getNextDrawingName(drawings), doc);
+      showDrawing(created.id, doc);
+      setIsGalleryOpen(false);
+      await refreshDrawings();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Could not start a new drawing");
+    }
+  };
+
+  const handleOpenDrawing = async (id: string) => {
+    await flushAutosave();
+    try {
+      showDrawing(id, await loadDrawing(id));
+      setIsGalleryOpen(false);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Could not open that drawing");
+    }
+  };
+
+  const handleDuplicateDrawing = async (id: string) => {
+    await flushAutosave();
+    try {
+      await duplicateDrawing(id);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Could not copy that drawing");
+    }
+    await refreshDrawings();
+  };
+
+  const handleRenameDrawing = async (id: string, name: string) => {
+    try {
+      await renameDrawing(id, name);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Could not rename that drawing");
+    }
+    await refreshDrawings();
+  };
+
+  const handleDeleteDrawing = async (id: string) => {
+    const drawing = drawings.find((d) => d.id === id);
+    if (!window.confirm(`Delete "${drawing?.name ?? 'this drawing'}" forever?`)) return;
 
-  // Save state to localStorage whenever it changes
+    try {
+      await deleteDrawing(id);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Could not delete that drawing");
+      return;
+    }
+
+    const remaining = drawings.filter((d) => d.id !== id);
+    setDrawings(remaining);
+    if (id !== currentDrawingIdRef.current) return;
+
+    // The open drawing is gone, switch to the newest one left or a blank sheet
+    currentDrawingIdRef.current = null;
+    try {
+      if (remaining.length > 0) {
+        showDrawing(remaining[0].id, await loadDrawing(remaining[0].id));
+      } else {
+        const doc = createDefaultDocument(window.innerHeight > window.innerWidth);
+        const created = await createDrawing(getNextDrawingName(remaining), doc);
+        showDrawing(created.id, doc);
+        setDrawings([created]);
+      }
+    } catch (e) {
+      reportStorageError(e);
+    }
+  };
+
+  // Follows the tool however it changes: picked, restored on load or switched by a restriction
   useEffect(() => {
-    localStorage.setItem('little-picasso-state', JSON.stringify(drawingState));
-  }, [drawingState]);
+    if (drawingState.tool !== ToolType.EYEDROPPER) drawingToolRef.current = drawingState.tool;
+  }, [drawingState.tool]);
 
   const handleToolChange = (tool: ToolType) => {
     setDrawingState(prev => ({ ...prev, tool }));
@@ -45,22 +490,126 @@ function App() {
     setDrawingState(prev => ({ ...prev, color }));
   };
 
+  const handleOpacityChange = (opacity: number) => {
+    setDrawingState(prev => ({ ...prev, opacity }));
+  };
+
+  // The picked color is what shows on the sheet, so it comes back fully solid
+  const handlePickColor = (color: string) => {
+    const { colors } = parentalSettings;
+    const isAllowed = colors.length === 0 || colors.includes(color);
+    setDrawingState(prev => ({
+      ...prev,
+      ...(isAllowed ? { color, opacity: 100 } : {}),
+      tool: drawingToolRef.current,
+    }));
+  };
+
   const handleSizeChange = (size: number) => {
     setDrawingState(prev => ({ ...prev, brushSize: size }));
   };
 
+  const handleBrushPresetChange = (brushPreset: BrushPreset) => {
+    setDrawingState(prev => ({ ...prev, brushPreset }));
+  };
+
+  const handleFillToleranceChange = (fillTolerance: number) => {
+    setDrawingState(prev => ({ ...prev, fillTolerance }));
+  };
+
+  const handleGapClosingChange = (gapClosing: number) => {
+    setDrawingState(prev => ({ ...prev, gapClosing }));
+  };
+
+  const handlePenOnlyChange = (penOnly: boolean) => {
+    setDrawingState(prev => ({ ...prev, penOnly }));
+  };
+
+  const handlePalmRejectionChange = (palmRejection: boolean) => {
+    setDrawingState(prev => ({ ...prev, palmRejection }));
+  };
+
+  const handleShapeChange = (shape: ShapeType) => {
+    setDrawingState(prev => ({ ...prev, shape }));
+  };
+
+  const handleShapeFilledChange = (shapeFilled: boolean) => {
+    setDrawingState(prev => ({ ...prev, shapeFilled }));
+  };
+
+  const handleLockAspectChange = (lockAspect: boolean) => {
+    setDrawingState(prev => ({ ...prev, lockAspect }));
+  };
+
+  const handleStickerChange = (sticker: string) => {
+    setDrawingState(prev => ({ ...prev, sticker }));
+  };
+
+  const handleSymmetryChange = (symmetry: Symmetry) => {
+    setDrawingState(prev => ({ ...prev, symmetry }));
+  };
+
+  const handleShowSymmetryGuidesChange = (showSymmetryGuides: boolean) => {
+    setDrawingState(prev => ({ ...prev, showSymmetryGuides }));
+  };
+
   const handleClear = () => {
-    if (window.confirm('Are you sure you want to start over?')) {
-        setTriggerClear(prev => prev + 1);
+    if (parentalSettings.restrictions.clear === 'lock') {
+        askGrownUp('Clear the whole picture and start over?', () => canvasRef.current?.clear());
+    } else if (parentalSettings.restrictions.clear === 'allow' && window.confirm('Are you sure you want to start over?')) {
+        canvasRef.current?.clear();
     }
   };
 
   const handleUndo = () => {
-    setTriggerUndo(prev => prev + 1);
+    canvasRef.current?.undo();
+  };
+
+  const handleRedo = () => {
+    canvasRef.current?.redo();
   };
 
+  // Keyboard shortcuts: Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo, none once time is up
+  useEffect(() => {
+    if (isTimeUp) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isTimeUp]);
+
   const handleUploadClick = () => {
-    fileInputRef.current?.click();
+    runRestricted('magicImport', 'Let a picture be turned into a coloring page?', () => {
+        importModeRef.current = 'ai';
+        fileInputRef.current?.click();
+    });
+  };
+
+  const handleTraceClick = () => {
+    runRestricted('magicImport', 'Let a photo be traced into a coloring page?', () => {
+        importModeRef.current = 'trace';
+        fileInputRef.current?.click();
+    });
+  };
+
+  // Puts a coloring page on the canvas and celebrates once it's there
+  const importPage = async (src: string) => {
+    await canvasRef.current?.loadImage(src);
+    confetti({
+        particleCount: 100,
+        spread: 70,
+        origin: { y: 0.6 }
+    });
   };
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -68,57 +617,372 @@ function App() {
     if (!file) return;
 
     setIsGenerating(true);
-    
-    try {
-        const reader = new FileReader();
-        reader.onloadend = async () => {
-            const base64String = reader.result as string;
-            // Remove data url prefix for API
-            const base64Data = base64String.split(',')[1];
-            
-            try {
-                const svgString = await convertImageToColoringPage(base64Data);
-                const svgBlob = new Blob([svgString], { type: 'image/svg+xml' });
-                const url = URL.createObjectURL(svgBlob);
-                setImportedSvg(url);
-                confetti({
-                    particleCount: 100,
-                    spread: 70,
-                    origin: { y: 0.6 }
-                });
-            } catch (error) {
-                alert("Oops! The magic wand couldn't convert that picture. Try another one!");
-            } finally {
-                setIsGenerating(false);
-            }
-        };
-        reader.readAsDataURL(file);
-    } catch (e) {
+    try {
+        if (isSvgFile(file)) {
+            // Already line art, no need to ask the magic wand
+            await importPage(svgToDataUrl(sanitizeSvg(await file.text())));
+        } else {
+            // Let the kid pick the part of the photo to convert first
+            setPendingPhoto(await loadPhoto(file));
+        }
+    } catch (error) {
+        console.error("Importing the picture failed", error);
+        alert(error instanceof SvgError || error instanceof ImageError
+            ? `Oops! ${error.message}`
+            : "Oops! That picture couldn't be opened. Try another one!");
+    } finally {
         setIsGenerating(false);
-        alert("Error reading file");
     }
-    
+
     // Reset input
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const handleCropConfirm = (crop: CropRect | null) => {
+    const photo = pendingPhoto;
+    if (!photo) return;
+    setPendingPhoto(null);
+
+    // The pretend service and tracing never send the photo anywhere
+    const leavesDevice = importModeRef.current === 'ai' && providerSettings.provider !== 'mock';
+    if (leavesDevice && parentalSettings.approvePhotoUploads) {
+        const service = PROVIDERS[providerSettings.provider].label;
+        askGrownUp(`This photo will be sent to ${service} to make the coloring page. Is that OK?`, () => convertPhoto(photo, crop));
+    } else {
+        convertPhoto(photo, crop);
+    }
+  };
+
+  const convertPhoto = async (photo: HTMLCanvasElement, crop: CropRect | null) => {
+    setIsGenerating(true);
+    const controller = new AbortController();
+    importAbortRef.current = controller;
+
+    try {
+        const { dataUrl, mimeType } = preparePhoto(photo, crop);
+        if (importModeRef.current === 'ai') {
+            const provider = createColoringPageProvider(providerSettings);
+            const { difficulty, variants: count } = magicImportOptions;
+            // Each variant is asked for separately, the ones that fail are left out
+            const results = await Promise.allSettled(
+                Array.from({ length: count }, (_, variant) => generateColoringPage(provider, {
+                    image: dataUrl.split(',')[1],
+                    mimeType,
+                    difficulty,
+                    variant,
+                    signal: controller.signal,
+                }))
+            );
+            if (controller.signal.aborted) return;
+
+            // Data URLs survive being saved inside the drawing document
+            const pages = results.flatMap((result) => result.status === 'fulfilled' ? [svgToDataUrl(result.value)] : []);
+            if (pages.length > 1) {
+                setVariants(pages);
+                return;
+            }
+            if (pages.length === 1) {
+                await importPage(pages[0]);
+                return;
+            }
+            // Offline, no API key or bad answers: trace the photo on the device instead
+            const failure = results.find((result) => result.status === 'rejected');
+            console.warn("Magic Import failed, tracing the photo offline", failure?.status === 'rejected' ? failure.reason : undefined);
+        }
+        const traced = await convertImageToLineArt(dataUrl);
+        if (controller.signal.aborted) return;
+        await importPage(traced);
+    } catch (error) {
+        if (isAbortError(error)) return;
+        console.error("Tracing the photo failed", error);
+        alert("Oops! The magic wand couldn't convert that picture. Try another one!");
+    } finally {
+        if (importAbortRef.current === controller) {
+            importAbortRef.current = null;
+            setIsGenerating(false);
+        }
+    }
+  };
+
+  const handleCancelImport = () => {
+    importAbortRef.current?.abort();
+    importAbortRef.current = null;
+    setIsGenerating(false);
+  };
+
+  const handlePickVariant = (variant: string) => {
+    setVariants(null);
+    importPage(variant).catch((e) => {
+        console.error("Failed to add the coloring page", e);
+        alert("Oops! That coloring page couldn't be added. Try another one!");
+    });
+  };
+
+  const startColorByNumber = () => {
+    const layers = canvasRef.current?.getLayers();
+    const doc = getDocument();
+    const source = doc ? getLineArtSource(doc) : null;
+    if (!layers || !doc || !source) return;
+
+    // Black is for the outlines and white is the paper, the numbers use the other colors the kid may pick
+    const allowed = parentalSettings.colors.length > 0 ? COLORS.filter((color) => parentalSettings.colors.includes(color)) : COLORS;
+    const colors = allowed.filter((color) => color !== '#000000' && color !== '#ffffff');
+    try {
+        const activity = createColorByNumber(layers.lineArt, doc, colors.length > 0 ? colors : allowed);
+        if (activity.regions.length === 0) {
+            alert("Oops! This picture has no spaces big enough for numbers. Try another coloring page!");
+            return;
+        }
+        const done = getDoneRegions(activity, layers.paint);
+        colorByNumberRef.current = { activity, source, isComplete: done.size === activity.regions.length };
+        setColorByNumber(activity);
+        setDoneRegions(done);
+    } catch (e) {
+        console.error("Failed to number the coloring page", e);
+        alert("Oops! The numbers couldn't be added to this picture.");
+    }
+  };
+
+  const stopColorByNumber = () => {
+    window.clearTimeout(colorByNumberTimer.current);
+    colorByNumberRef.current = null;
+    setColorByNumber(null);
+    setDoneRegions(new Set());
+  };
+
+  // Runs after the drawing changes while coloring by number
+  const checkColorByNumber = () => {
+    const current = colorByNumberRef.current;
+    const layers = canvasRef.current?.getLayers();
+    const doc = getDocument();
+    if (!current || !layers || !doc) return;
+
+    // A new coloring page or a cleared canvas ends the activity
+    if (getLineArtSource(doc) !== current.source) {
+        stopColorByNumber();
+        return;
+    }
+    let { activity } = current;
+    // The canvas changed resolution since the page was numbered, regions are in pixels
+    if (layers.paint.width !== activity.width || layers.paint.height !== activity.height) {
+        activity = createColorByNumber(layers.lineArt, doc, activity.palette);
+        setColorByNumber(activity);
+    }
+
+    const done = getDoneRegions(activity, layers.paint);
+    const isComplete = activity.regions.length > 0 && done.size === activity.regions.length;
+    if (isComplete && !current.isComplete) {
+        confetti({
+            particleCount: 200,
+            spread: 120,
+            origin: { y: 0.6 }
+        });
+    }
+    colorByNumberRef.current = { activity, source: current.source, isComplete };
+    setDoneRegions(done);
+  };
+
+  const handleColorByNumber = () => {
+    if (colorByNumber) stopColorByNumber();
+    else startColorByNumber();
+  };
+
+  const handlePickActivity = (picked: Activity) => {
+    setIsActivityPickerOpen(false);
+    const doc = getDocument();
+    if (doc) setActivity(startActivity(picked, doc));
+  };
+
+  const handleActivityChange = (progress: ActivityProgress) => {
+    if (isActivityComplete(progress) && activity && !isActivityComplete(activity)) {
+        confetti({
+            particleCount: 150,
+            spread: 90,
+            origin: { y: 0.6 }
+        });
+    }
+    setActivity(progress);
+  };
+
+  const getActivityStatus = (progress: ActivityProgress) => {
+    const { activity: current, paths, done, missed } = progress;
+    if (current.type === 'dots') {
+        return isActivityComplete(progress) ? 'You did it! 🎉' : `${done} / ${paths[0].length} dots`;
+    }
+    if (isActivityComplete(progress)) return '⭐'.repeat(getTraceStars(progress));
+    return missed ? 'Follow the dashes, try again!' : `Line ${done + 1} of ${paths.length}`;
+  };
+
+  const leaveRoom = () => {
+    collabRef.current?.close();
+    collabRef.current = null;
+    setCollab(null);
+    setCollabUsers([]);
+  };
+
+  const enterRoom = (session: CollabSession) => {
+    collabRef.current = session;
+    setCollab(session);
+  };
+
+  // Connects as this artist, remembering the name and relay for next time
+  const connectToRoom = (settings: CollabSettings, room: string, doc?: DrawingDocument) => {
+    setCollabSettings(settings);
+    saveSetting(SETTING_COLLAB, settings).catch(reportStorageError);
+    const user = { name: settings.name.trim() || 'Artist', color: artistColor.current };
+    return joinRoom(settings, room, user, {
+      onUsers: setCollabUsers,
+      onDisconnect: (error) => {
+        collabRef.current = null;
+        setCollab(null);
+        setCollabUsers([]);
+        alert(`Oops! ${error.message}`);
+      },
+    }, doc);
+  };
+
+  const handleStartRoom = async (settings: CollabSettings) => {
+    const doc = getDocument();
+    if (!doc) return;
+    setIsConnecting(true);
+    try {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const { session } = await connectToRoom(settings, createRoomCode(), doc);
+                enterRoom(session);
+                break;
+            } catch (e) {
+                if (!(e instanceof CollabError && e.reason === 'taken') || attempt >= ROOM_CODE_ATTEMPTS) throw e;
+            }
+        }
+    } catch (e) {
+        console.error("Failed to start a room", e);
+        alert(`Oops! ${e instanceof CollabError ? e.message : "The room couldn't be started."}`);
+    } finally {
+        setIsConnecting(false);
+    }
+  };
+
+  const handleJoinRoom = async (settings: CollabSettings, code: string) => {
+    const room = normalizeRoomCode(code);
+    setIsConnecting(true);
+    try {
+        const { session, doc } = await connectToRoom(settings, room);
+        // The shared drawing is kept in the gallery like any other
+        try {
+            await flushAutosave();
+            const created = await createDrawing(`Room ${room}`, doc);
+            showDrawing(created.id, doc);
+            await refreshDrawings();
+        } catch (e) {
+            session.close();
+            throw e;
+        }
+        enterRoom(session);
+        setIsCollabOpen(false);
+    } catch (e) {
+        console.error("Failed to join a room", e);
+        alert(`Oops! ${e instanceof Error ? e.message : "That room couldn't be joined."}`);
+    } finally {
+        setIsConnecting(false);
+    }
+  };
+
+  const handleReplay = () => {
+    setReplayDocument(getDocument());
+  };
+
+  const handleExportGif = async () => {
+    if (!replayDocument) return;
+    const controller = new AbortController();
+    gifAbortRef.current = controller;
+    setGifProgress(0);
+    try {
+        const name = drawings.find((d) => d.id === currentDrawingId)?.name ?? '';
+        downloadBlob(await exportReplayGif(replayDocument, setGifProgress, controller.signal), getReplayFileName(name));
+    } catch (e) {
+        if (!isAbortError(e)) {
+            console.error("Failed to export replay", e);
+            alert("Oops! The replay couldn't be saved. Please try again.");
+        }
+    } finally {
+        if (gifAbortRef.current === controller) gifAbortRef.current = null;
+        setGifProgress(null);
+    }
+  };
+
+  const handleExportGifClick = () => {
+    runRestricted('download', 'Save the replay as a GIF?', handleExportGif);
+  };
+
+  const handleCloseReplay = () => {
+    gifAbortRef.current?.abort();
+    setReplayDocument(null);
+  };
+
   const handleDownload = () => {
-    // We need to access the canvas element to download
-    const canvas = document.querySelector('canvas');
-    if (canvas) {
-        const link = document.createElement('a');
-        link.download = 'little-picasso-art.png';
-        link.href = canvas.toDataURL();
-        link.click();
+    runRestricted('download', 'Save this picture?', () => setIsExportOpen(true));
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    setIsExporting(true);
+    try {
+        const name = drawings.find((d) => d.id === currentDrawingId)?.name ?? '';
+        downloadBlob(await canvas.exportBlob(options), getExportFileName(name, options));
+        setIsExportOpen(false);
         confetti({
             particleCount: 150,
             spread: 100,
             origin: { y: 0.6 },
             colors: ['#FFE400', '#FFBD00', '#E89400', '#FFCA6C', '#FDFFB8']
         });
+    } catch (e) {
+        console.error("Export failed", e);
+        alert(e instanceof Error ? e.message : "Your drawing could not be saved.");
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
+  const handleSaveProject = () => {
+    runRestricted('download', 'Save this project to a file?', () => {
+        const doc = getDocument();
+        if (!doc) return;
+        const blob = new Blob([serializeDocument(doc)], { type: 'application/json' });
+        downloadBlob(blob, `little-picasso-art${DOCUMENT_FILE_EXTENSION}`);
+    });
+  };
+
+  const handleOpenProjectClick = () => {
+    projectInputRef.current?.click();
+  };
+
+  const handleProjectFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+        // Opened projects become a new drawing in the gallery
+        const doc = parseDocument(await file.text());
+        await flushAutosave();
+        const name = file.name.replace(DOCUMENT_FILE_EXTENSION, '').replace(/\.json$/, '') || getNextDrawingName(drawings);
+        const created = await createDrawing(name, doc);
+        showDrawing(created.id, doc);
+        await refreshDrawings();
+    } catch (e) {
+        alert(e instanceof Error ? e.message : "Error reading file");
     }
+
+    // Reset input
+    if (projectInputRef.current) projectInputRef.current.value = '';
   };
 
+  // As drawn so far, for the dialogs and buttons that depend on it
+  const openDocument = getDocument();
+
   return (
     <div className="h-screen w-full flex flex-col bg-blue-50 relative">
       
@@ -127,7 +991,14 @@ function App() {
         type="file" 
         ref={fileInputRef} 
         onChange={handleFileChange} 
-        accept="image/*" 
+        accept="image/*,.svg" 
+        className="hidden" 
+      />
+      <input 
+        type="file" 
+        ref={projectInputRef} 
+        onChange={handleProjectFileChange} 
+        accept={`${DOCUMENT_FILE_EXTENSION},.json,application/json`} 
         className="hidden" 
       />
 
@@ -139,8 +1010,152 @@ function App() {
             </div>
             <h1 className="text-3xl font-black text-blue-900 tracking-tight">Little Picasso</h1>
         </div>
+        <div className="flex items-center gap-3">
+            {storageError && (
+                <p className="text-sm font-semibold text-red-600 bg-red-50 border-2 border-red-200 rounded-xl px-3 py-1" role="alert">
+                    {storageError}
+                </p>
+            )}
+            {collab && (
+                <button
+                    onClick={() => setIsCollabOpen(true)}
+                    className="flex items-center gap-2 px-3 py-2 rounded-2xl bg-sky-500 text-white font-bold shadow-lg hover:bg-sky-600"
+                    title="Draw Together"
+                >
+                    <Users size={20} />
+                    <span className="tracking-widest">{collab.room}</span>
+                    <span className="text-sky-100">{collabUsers.length}</span>
+                </button>
+            )}
+            <button
+                onClick={() => askGrownUp('Open the grown-up settings?', () => setIsParentalOpen(true))}
+                className="p-2 rounded-2xl bg-white text-blue-900 shadow-lg border-2 border-yellow-200 hover:bg-yellow-50"
+                title="Grown-ups"
+            >
+                <ShieldCheck size={20} />
+            </button>
+            <button
+                onClick={() => askGrownUp('Change the Magic Import settings?', () => setIsSettingsOpen(true))}
+                className="p-2 rounded-2xl bg-white text-blue-900 shadow-lg border-2 border-yellow-200 hover:bg-yellow-50"
+                title="Settings"
+            >
+                <Settings size={20} />
+            </button>
+            <button
+                onClick={handleOpenGallery}
+                className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-white text-blue-900 font-bold shadow-lg border-2 border-yellow-200 hover:bg-yellow-50"
+            >
+                <Images size={20} />
+                My Drawings
+            </button>
+        </div>
       </header>
 
+      {isGalleryOpen && (
+        <Gallery
+            drawings={drawings}
+            currentDrawingId={currentDrawingId}
+            onNew={handleNewDrawing}
+            onOpen={handleOpenDrawing}
+            onDuplicate={handleDuplicateDrawing}
+            onRename={handleRenameDrawing}
+            onDelete={handleDeleteDrawing}
+            onClose={() => setIsGalleryOpen(false)}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsDialog
+            providerSettings={providerSettings}
+            onSave={handleSaveProviderSettings}
+            onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {pendingPhoto && (
+        <CropDialog
+            photo={pendingPhoto}
+            magicOptions={importModeRef.current === 'ai' ? magicImportOptions : undefined}
+            onMagicOptionsChange={handleMagicImportOptionsChange}
+            onConfirm={handleCropConfirm}
+            onClose={() => setPendingPhoto(null)}
+        />
+      )}
+
+      {variants && (
+        <VariantPicker
+            variants={variants}
+            onPick={handlePickVariant}
+            onClose={() => setVariants(null)}
+        />
+      )}
+
+      {replayDocument && (
+        <ReplayDialog
+            doc={replayDocument}
+            isExporting={gifProgress !== null}
+            exportProgress={gifProgress ?? 0}
+            onExportGif={parentalSettings.restrictions.download === 'hide' ? undefined : handleExportGifClick}
+            onClose={handleCloseReplay}
+        />
+      )}
+
+      {isActivityPickerOpen && (
+        <ActivityPicker
+            activities={STARTER_ACTIVITIES}
+            onPick={handlePickActivity}
+            onClose={() => setIsActivityPickerOpen(false)}
+        />
+      )}
+
+      {isCollabOpen && (
+        <CollabDialog
+            settings={collabSettings}
+            room={collab?.room ?? null}
+            users={collabUsers}
+            isConnecting={isConnecting}
+            onStart={handleStartRoom}
+            onJoin={handleJoinRoom}
+            onLeave={leaveRoom}
+            onClose={() => setIsCollabOpen(false)}
+        />
+      )}
+
+      {isParentalOpen && (
+        <ParentalDialog
+            parentalSettings={parentalSettings}
+            onSave={handleSaveParentalSettings}
+            onClose={() => setIsParentalOpen(false)}
+        />
+      )}
+
+      {isTimeUp && (
+        <TimesUp onMoreTime={() => askGrownUp('Give some more drawing time?', startSession)} />
+      )}
+
+      {parentGate && (
+        <ParentGate
+            pin={parentalSettings.pin}
+            reason={parentGate.reason}
+            onUnlock={() => {
+                setParentGate(null);
+                parentGate.onUnlock();
+            }}
+            onClose={() => setParentGate(null)}
+        />
+      )}
+
+      {isExportOpen && openDocument && (
+        <ExportDialog
+            width={openDocument.width}
+            height={openDocument.height}
+            hasLineArt={hasLineArt(openDocument)}
+            isExporting={isExporting}
+            onExport={handleExport}
+            onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 flex flex-col md:flex-row p-4 gap-4 overflow-hidden">
         
@@ -156,12 +1171,47 @@ function App() {
                 <Toolbar 
                     currentTool={drawingState.tool}
                     setTool={handleToolChange}
+                    availableTools={parentalSettings.tools}
+                    restrictions={parentalSettings.restrictions}
                     brushSize={drawingState.brushSize}
                     setBrushSize={handleSizeChange}
+                    brushPreset={drawingState.brushPreset}
+                    setBrushPreset={handleBrushPresetChange}
+                    fillTolerance={drawingState.fillTolerance}
+                    setFillTolerance={handleFillToleranceChange}
+                    gapClosing={drawingState.gapClosing}
+                    setGapClosing={handleGapClosingChange}
+                    shape={drawingState.shape}
+                    setShape={handleShapeChange}
+                    shapeFilled={drawingState.shapeFilled}
+                    setShapeFilled={handleShapeFilledChange}
+                    lockAspect={drawingState.lockAspect}
+                    setLockAspect={handleLockAspectChange}
+                    symmetry={drawingState.symmetry}
+                    setSymmetry={handleSymmetryChange}
+                    showSymmetryGuides={drawingState.showSymmetryGuides}
+                    setShowSymmetryGuides={handleShowSymmetryGuidesChange}
+                    penOnly={drawingState.penOnly}
+                    setPenOnly={handlePenOnlyChange}
+                    palmRejection={drawingState.palmRejection}
+                    setPalmRejection={handlePalmRejectionChange}
                     onClear={handleClear}
                     onUpload={handleUploadClick}
+                    onTrace={handleTraceClick}
+                    onReplay={handleReplay}
+                    onActivities={() => setIsActivityPickerOpen(true)}
+                    onColorByNumber={handleColorByNumber}
+                    isColorByNumber={colorByNumber !== null}
+                    canColorByNumber={openDocument !== null && hasLineArt(openDocument)}
+                    onCollab={() => setIsCollabOpen(true)}
+                    isCollab={collab !== null}
                     onDownload={handleDownload}
+                    onSaveProject={handleSaveProject}
+                    onOpenProject={handleOpenProjectClick}
                     onUndo={handleUndo}
+                    onRedo={handleRedo}
+                    canUndo={historyState.canUndo && !collab}
+                    canRedo={historyState.canRedo && !collab}
                     isGenerating={isGenerating}
                 />
             </div>
@@ -172,26 +1222,88 @@ function App() {
                     <div className="absolute inset-0 z-50 bg-white/80 backdrop-blur-sm flex flex-col items-center justify-center rounded-3xl">
                         <div className="animate-spin text-5xl mb-4">✨</div>
                         <p className="text-2xl font-bold text-purple-600 animate-pulse">Making Magic...</p>
+                        {importAbortRef.current && (
+                            <button
+                                onClick={handleCancelImport}
+                                className="mt-6 flex items-center gap-2 px-5 py-3 rounded-2xl bg-white text-gray-600 font-bold shadow-lg border-2 border-gray-200 hover:bg-gray-50"
+                            >
+                                <X size={20} />
+                                Stop
+                            </button>
+                        )}
                     </div>
                 )}
                 
+                {colorByNumber && (
+                    <div className="absolute top-3 left-3 z-10 flex items-center gap-2 px-3 py-2 bg-white/90 rounded-xl shadow-md text-sm font-bold text-teal-700 pointer-events-none">
+                        <span>🔢 {doneRegions.size} / {colorByNumber.regions.length}</span>
+                        <div className="w-24 h-2 rounded-full bg-gray-200 overflow-hidden">
+                            <div
+                                className="h-full bg-teal-500 transition-[width]"
+                                style={{ width: `${(doneRegions.size / colorByNumber.regions.length) * 100}%` }}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                {activity && (
+                    <div className="absolute top-3 right-3 z-10 flex items-center gap-2 pl-3 pr-1 py-1 bg-white/90 rounded-xl shadow-md text-sm font-bold text-orange-700">
+                        <span>{activity.activity.name}</span>
+                        <span className="text-gray-600">{getActivityStatus(activity)}</span>
+                        <button
+                            onClick={() => setActivity(null)}
+                            className="p-1 rounded-lg text-gray-500 hover:bg-gray-100"
+                            title="End activity"
+                        >
+                            <X size={16} />
+                        </button>
+                    </div>
+                )}
+
                 <Canvas 
+                    ref={canvasRef}
                     tool={drawingState.tool}
-                    color={drawingState.color}
+                    color={setColorOpacity(drawingState.color, drawingState.opacity / 100)}
                     brushSize={drawingState.brushSize}
-                    triggerClear={triggerClear}
-                    triggerUndo={triggerUndo}
-                    importedImageSrc={importedSvg}
-                    onCanvasReady={(c) => console.log("Canvas ready")}
+                    brushPreset={drawingState.brushPreset}
+                    fillTolerance={drawingState.fillTolerance}
+                    gapClosing={drawingState.gapClosing}
+                    shape={drawingState.shape}
+                    shapeFilled={drawingState.shapeFilled}
+                    lockAspect={drawingState.lockAspect}
+                    sticker={drawingState.sticker}
+                    symmetry={drawingState.symmetry}
+                    showSymmetryGuides={drawingState.showSymmetryGuides}
+                    numberLabels={colorByNumber?.regions.filter((region) => !doneRegions.has(region.label))}
+                    activity={activity}
+                    onActivityChange={handleActivityChange}
+                    onPickColor={handlePickColor}
+                    collab={collab}
+                    collabUsers={collabUsers}
+                    penOnly={drawingState.penOnly}
+                    palmRejection={drawingState.palmRejection}
                 />
             </div>
 
-             {/* Bottom Color Picker */}
-            <div className="flex-none mt-4 z-20">
+             {/* Bottom Color Picker (and Sticker Picker for the stamp tool) */}
+            <div className="flex-none mt-4 z-20 flex flex-col lg:flex-row gap-2 justify-center">
                 <ColorPicker 
                     selectedColor={drawingState.color}
                     onSelectColor={handleColorChange}
+                    opacity={drawingState.opacity}
+                    onOpacityChange={handleOpacityChange}
+                    paletteSettings={paletteSettings}
+                    onPaletteSettingsChange={setPaletteSettings}
+                    allowedColors={parentalSettings.colors}
+                    numberedColors={colorByNumber?.palette}
                 />
+                {drawingState.tool === ToolType.STAMP && (
+                    <StickerPicker
+                        selectedSticker={drawingState.sticker}
+                        color={drawingState.color}
+                        onSelectSticker={handleStickerChange}
+                    />
+                )}
             </div>
         </div>
       </main>
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Point } from '../types';
+import { ActivityProgress } from '../utils/activities';
+
+interface ActivityOverlayProps {
+  progress: ActivityProgress;
+  // Size of the sheet in document units
+  width: number;
+  height: number;
+}
+
+const toPolyline = (points: Point[]) => points.map((p) => `${p.x},${p.y}`).join(' ');
+
+/**
+ * Dots to connect or dashed paths to trace, drawn over the sheet. Never part
+ * of the drawing, the lines the kid draws are.
+ */
+export const ActivityOverlay: React.FC<ActivityOverlayProps> = ({ progress, width, height }) => {
+  const { activity, paths, scale, done } = progress;
+  const dotRadius = 1.6 * scale;
+
+  return (
+    <svg className="absolute inset-0 w-full h-full pointer-events-none select-none" viewBox={`0 0 ${width} ${height}`}>
+      {activity.type === 'dots' ? (
+        paths[0].map((dot, i) => (
+          <g key={i}>
+            <circle
+              cx={dot.x}
+              cy={dot.y}
+              r={i === done ? dotRadius * 1.6 : dotRadius}
+              fill={i < done ? '#22c55e' : i === done ? '#f97316' : '#1f2937'}
+              className={i === done ? 'animate-pulse' : undefined}
+            />
+            <text
+              x={dot.x + dotRadius * 1.6}
+              y={dot.y - dotRadius * 1.6}
+              fontSize={4 * scale}
+              fontWeight="bold"
+              fontFamily="sans-serif"
+              fill={i < done ? '#94a3b8' : '#1f2937'}
+              stroke="white"
+              strokeWidth={scale}
+              paintOrder="stroke"
+            >
+              {i + 1}
+            </text>
+          </g>
+        ))
+      ) : (
+        paths.map((path, i) => (
+          <g key={i}>
+            <polyline
+              points={toPolyline(path)}
+              fill="none"
+              stroke={i < done ? '#cbd5e1' : i === done ? '#3b82f6' : '#94a3b8'}
+              strokeWidth={(i === done ? 2.4 : 1.6) * scale}
+              strokeDasharray={`${3 * scale} ${2.5 * scale}`}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+            {/* Where to start the current path */}
+            {i === done && (
+              <circle cx={path[0].x} cy={path[0].y} r={dotRadius * 1.8} fill="#22c55e" className="animate-pulse" />
+            )}
+          </g>
+        ))
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { ACTIVITY_BOX, Activity } from '../utils/activities';
+
+interface ActivityPickerProps {
+  activities: Activity[];
+  onPick: (activity: Activity) => void;
+  onClose: () => void;
+}
+
+const GROUPS: { label: string; matches: (activity: Activity) => boolean }[] = [
+  { label: 'Dot-to-Dot', matches: (activity) => activity.type === 'dots' },
+  { label: 'Letters', matches: (activity) => activity.type === 'trace' && activity.category === 'letter' },
+  { label: 'Numbers', matches: (activity) => activity.type === 'trace' && activity.category === 'number' },
+  { label: 'Shapes', matches: (activity) => activity.type === 'trace' && activity.category === 'shape' },
+];
+
+const Preview: React.FC<{ activity: Activity }> = ({ activity }) => (
+  <svg viewBox={`0 0 ${ACTIVITY_BOX} ${ACTIVITY_BOX}`} className="w-16 h-16">
+    {activity.type === 'dots'
+      ? activity.points.map((p, i) => <circle key={i} cx={p.x} cy={p.y} r={3} fill="#1f2937" />)
+      : activity.paths.map((path, i) => (
+          <polyline
+            key={i}
+            points={path.map((p) => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            stroke="#3b82f6"
+            strokeWidth={5}
+            strokeDasharray="8 6"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ))}
+  </svg>
+);
+
+export const ActivityPicker: React.FC<ActivityPickerProps> = ({ activities, onPick, onClose }) => (
+  <div className="fixed inset-0 z-50 bg-blue-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+    <div
+      className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-200 w-full max-w-2xl max-h-full overflow-y-auto flex flex-col gap-4 p-4"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-black text-blue-900">Activities</h2>
+        <button onClick={onClose} className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200" title="Close">
+          <X size={20} />
+        </button>
+      </div>
+
+      {GROUPS.map(({ label, matches }) => {
+        const group = activities.filter(matches);
+        if (group.length === 0) return null;
+        return (
+          <div key={label} className="flex flex-col gap-2">
+            <span className="text-xs font-bold text-gray-500">{label}</span>
+            <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+              {group.map((activity) => (
+                <button
+                  key={activity.id}
+                  onClick={() => onPick(activity)}
+                  className="flex flex-col items-center gap-1 p-2 rounded-2xl bg-gray-50 border-2 border-gray-100 hover:border-blue-300 hover:bg-blue-50 transition-colors"
+                >
+                  <Preview activity={activity} />
+                  <span className="text-sm font-bold text-gray-700">{activity.name}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
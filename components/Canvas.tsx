@@ -1,255 +1,896 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { ToolType } from '../types';
-import { floodFill } from '../utils/floodFill';
+import React, { useRef, useEffect, useImperativeHandle, useState } from 'react';
+import { Maximize } from 'lucide-react';
+import { BrushPreset, ToolType, DrawingAction, DrawingDocument, FillAction, HistoryState, Point, Rect, ShapeAction, ShapeType, StampAction, StrokeAction, StrokePoint, Symmetry, SymmetryMode } from '../types';
+import { createDefaultDocument, createDocument } from '../utils/document';
+import { CommandHistory, createHistory } from '../utils/history';
+import { createStrokeSeed } from '../utils/brushes';
+import { applyFillRegion } from '../utils/floodFill';
+import { requestFillRegion } from '../utils/fillWorker';
+import { constrainShapeEnd, drawShape } from '../utils/shapes';
+import { getStampSize, getStampSrc } from '../utils/stickers';
+import { getSymmetryGuides } from '../utils/symmetry';
+import { NumberedRegion } from '../utils/colorByNumber';
+import { ActivityProgress, connectDot, isActivityComplete, traceStroke } from '../utils/activities';
+import { ActivityOverlay } from './ActivityOverlay';
+import { CollabSession, CollabUser } from '../services/collab';
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions, exportDocument } from '../utils/export';
+import {
+  RenderTarget,
+  StrokeRenderState,
+  beginStroke,
+  drawStrokeSegment,
+  getDocumentScale,
+  getFillBoundary,
+  getFillOptions,
+  getFillStart,
+  getStrokeBounds,
+  loadDocumentImages,
+  loadImage,
+  renderAction,
+  renderDocument,
+  sampleColor,
+} from '../utils/renderer';
+import { IDENTITY_VIEW, ViewTransform, fitView, toCssTransform, zoomAt } from '../utils/viewport';
+
+// Longest side of a layer canvas in pixels, keeps memory in check on dense screens
+const MAX_CANVAS_DIMENSION = 4096;
+// Wait for resizing and rotation to settle before re-rendering
+const RESIZE_DEBOUNCE_MS = 150;
+
+// Width of the lines joining dot-to-dot dots, in document units
+const DOT_LINE_WIDTH = 6;
+
+// Send this artist's cursor to the others at most this often
+const CURSOR_INTERVAL_MS = 50;
+
+// Touches with a contact area larger than this (in CSS pixels) are treated as a resting palm
+const PALM_CONTACT_SIZE = 40;
+
+export interface CanvasSnapshot {
+  // Copy of the drawing, safe to keep
+  document: DrawingDocument;
+  history: HistoryState;
+}
+
+/**
+ * What the page hosting a canvas can do with it, handed out through `ref`.
+ * Each canvas has its own, so a page can show more than one.
+ */
+export interface CanvasController {
+  clear: () => void;
+  undo: () => void;
+  redo: () => void;
+  // Adds a picture, usually a coloring page, resolves once it is drawn
+  loadImage: (src: string) => Promise<void>;
+  // Shows another drawing, e.g. one opened from the gallery, with a fresh undo history
+  loadDocument: (doc: DrawingDocument) => void;
+  exportBlob: (options?: ExportOptions) => Promise<Blob>;
+  getSnapshot: () => CanvasSnapshot;
+  // The layers as shown, for thumbnails and checking what was painted
+  getLayers: () => { paint: HTMLCanvasElement; lineArt: HTMLCanvasElement } | null;
+  // Called after every change to the drawing, returns a function that unsubscribes
+  subscribe: (listener: (snapshot: CanvasSnapshot) => void) => () => void;
+}
 
 interface CanvasProps {
+  ref?: React.Ref<CanvasController>;
   tool: ToolType;
   color: string;
   brushSize: number;
-  triggerClear: number;
-  triggerUndo: number;
-  importedImageSrc: string | null;
-  onCanvasReady: (canvas: HTMLCanvasElement) => void;
+  // Texture of the BRUSH tool
+  brushPreset: BrushPreset;
+  fillTolerance: number;
+  gapClosing: number;
+  shape: ShapeType;
+  shapeFilled: boolean;
+  // Keep shapes square and lines at 45° steps, like holding shift
+  lockAspect: boolean;
+  sticker: string;
+  // Mirror / kaleidoscope mode applied to strokes
+  symmetry: Symmetry;
+  showSymmetryGuides: boolean;
+  // Color-by-number regions still to paint, their numbers are shown on the sheet
+  numberLabels?: NumberedRegion[];
+  // Dot-to-dot or tracing activity in progress, see utils/activities.ts
+  activity?: ActivityProgress | null;
+  onActivityChange?: (progress: ActivityProgress) => void;
+  // Color tapped with the eyedropper, as it shows on the sheet
+  onPickColor?: (color: string) => void;
+  // Room this drawing is shared in, see services/collab.ts
+  collab?: CollabSession | null;
+  // Everyone in the room, for the names and colors of their cursors
+  collabUsers?: CollabUser[];
+  // Ignore fingers and only draw with a stylus
+  penOnly: boolean;
+  // Ignore touches with a large contact area
+  palmRejection: boolean;
+  // Maximum bytes of pixel data kept for fast undo
+  historyBudget?: number;
 }
 
 export const Canvas: React.FC<CanvasProps> = ({
+  ref,
   tool,
   color,
   brushSize,
-  triggerClear,
-  triggerUndo,
-  importedImageSrc,
-  onCanvasReady
+  brushPreset,
+  fillTolerance,
+  gapClosing,
+  shape,
+  shapeFilled,
+  lockAspect,
+  sticker,
+  symmetry,
+  showSymmetryGuides,
+  numberLabels = [],
+  activity = null,
+  onActivityChange,
+  onPickColor,
+  collab = null,
+  collabUsers = [],
+  penOnly,
+  palmRejection,
+  historyBudget
 }) => {
+  // Paint layer, receives all input
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Locked line-art layer stacked on top of the paint layer
+  const lineArtRef = useRef<HTMLCanvasElement>(null);
+  // Rubber-band previews, never part of the drawing or its export
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  // Strokes other artists are still drawing, under the line art like the paint layer
+  const remoteLayerRef = useRef<HTMLCanvasElement>(null);
+  // Viewport that receives input, the sheet inside it is zoomed and panned
   const containerRef = useRef<HTMLDivElement>(null);
+
+  const [sheetSize, setSheetSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  // Where the other artists are pointing, by user id
+  const [remoteCursors, setRemoteCursors] = useState<Record<string, Point>>({});
   
   // Use refs for mutable state that doesn't need to trigger re-renders
   const isDrawing = useRef(false);
-  const lastPos = useRef<{ x: number; y: number } | null>(null);
-  
-  const [history, setHistory] = useState<ImageData[]>([]);
+  const lastPos = useRef<StrokePoint | null>(null);
+  // Only one pointer draws at a time, others are ignored until it lifts
+  const activePointer = useRef<number | null>(null);
+
+  // Touch points currently down (client coordinates), two of them pinch and pan
+  const touchPoints = useRef(new Map<number, Point>());
+  const pinch = useRef<{ startDistance: number; startMid: Point; startView: ViewTransform } | null>(null);
+  // Space-drag or middle-button panning
+  const pan = useRef<{ pointerId: number; start: Point; startView: ViewTransform } | null>(null);
+  const spaceHeld = useRef(false);
+  const currentStroke = useRef<StrokeAction | null>(null);
+  const strokeState = useRef<StrokeRenderState | null>(null);
+  const currentShape = useRef<ShapeAction | null>(null);
+
+  // The document is the source of truth, the canvas pixels are a rendering of it
+  const docRef = useRef<DrawingDocument>(createDocument(1, 1));
+  const imagesRef = useRef(new Map<string, HTMLImageElement>());
+  const listenersRef = useRef(new Set<(snapshot: CanvasSnapshot) => void>());
+  const renderToken = useRef(0);
+
+  const historyRef = useRef<CommandHistory>(createHistory(historyBudget));
+  // Copy of the paint layer as of the last committed action, undo patches are cut from it
+  const committedRef = useRef<HTMLCanvasElement | null>(null);
   
-  // Track the last processed undo trigger to prevent loops
-  const prevTriggerUndo = useRef(triggerUndo);
+  // Strokes other artists are drawing right now, by stroke id
+  const remoteStrokes = useRef(new Map<string, StrokeAction>());
+  // Finished actions from other artists wait while this artist is mid-stroke
+  const remoteQueue = useRef<{ action: DrawingAction; strokeId?: string }[]>([]);
+  const isApplyingRemote = useRef(false);
+  const remoteFrame = useRef(0);
+  // Id of this artist's stroke in progress, as the others know it
+  const liveStrokeId = useRef<string | null>(null);
+  const strokeCount = useRef(0);
+  const lastCursorSent = useRef(0);
+
+  const getRenderTarget = (): RenderTarget | null => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const lineArtCtx = lineArtRef.current?.getContext('2d');
+    if (!canvas || !ctx || !lineArtCtx) return null;
+    const doc = docRef.current;
+    return {
+      paintCtx: ctx,
+      lineArtCtx,
+      scale: getDocumentScale(doc, canvas.width, canvas.height),
+      docWidth: doc.width,
+      docHeight: doc.height,
+      images: imagesRef.current,
+    };
+  };
+
+  // Re-render the whole document once its pictures are loaded
+  const redraw = async () => {
+    const token = ++renderToken.current;
+    const images = await loadDocumentImages(docRef.current);
+    if (token !== renderToken.current) return;
+    imagesRef.current = images;
+    const target = getRenderTarget();
+    if (target) {
+      renderDocument(target, docRef.current);
+      syncCommitted();
+    }
+  };
+
+  const syncCommitted = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (!committedRef.current) committedRef.current = document.createElement('canvas');
+    const committed = committedRef.current;
+    if (committed.width !== canvas.width || committed.height !== canvas.height) {
+      committed.width = canvas.width;
+      committed.height = canvas.height;
+    }
+    const ctx = committed.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+    ctx.clearRect(0, 0, committed.width, committed.height);
+    ctx.drawImage(canvas, 0, 0);
+  };
+
+  const getSnapshot = (): CanvasSnapshot => ({
+    document: { ...docRef.current, actions: [...docRef.current.actions] },
+    history: {
+      canUndo: historyRef.current.canUndo(),
+      canRedo: historyRef.current.canRedo(),
+    },
+  });
+
+  const notifyChange = () => {
+    const snapshot = getSnapshot();
+    listenersRef.current.forEach((listener) => listener(snapshot));
+  };
+
+  // Record an action that has just been drawn onto the canvas
+  const recordAction = (action: DrawingAction, dirty: Rect | null, clearRedo = true) => {
+    const canvas = canvasRef.current;
+    const committedCtx = committedRef.current?.getContext('2d', { willReadFrequently: true });
+    const coversCanvas = !dirty || !canvas || (dirty.width >= canvas.width && dirty.height >= canvas.height);
+
+    // Whole-canvas changes are undone by replaying the document instead of storing pixels
+    const patch = dirty && committedCtx && !coversCanvas
+      ? { x: dirty.x, y: dirty.y, data: committedCtx.getImageData(dirty.x, dirty.y, dirty.width, dirty.height) }
+      : null;
+
+    historyRef.current.push({ action, patch }, clearRedo);
+    syncCommitted();
+    docRef.current.actions.push(action);
+    notifyChange();
+  };
+
+  // Record an action drawn here, and pass it on when drawing together
+  const commitAction = (action: DrawingAction, dirty: Rect | null, clearRedo = true) => {
+    recordAction(action, dirty, clearRedo);
+    collab?.send({ type: 'action', action });
+  };
+
+  const undo = () => {
+    // Others may have drawn on top since, so shared drawings only go forward
+    if (collab) return;
+    const entry = historyRef.current.undo();
+    if (!entry) return;
+
+    docRef.current.actions.pop();
+    // Patches only ever cover the paint layer
+    const ctx = canvasRef.current?.getContext('2d');
+    if (entry.patch && ctx) {
+      ctx.putImageData(entry.patch.data, entry.patch.x, entry.patch.y);
+      syncCommitted();
+    } else {
+      redraw();
+    }
+    notifyChange();
+  };
+
+  const redo = () => {
+    if (collab) return;
+    const target = getRenderTarget();
+    if (!target) return;
+    const action = historyRef.current.redo();
+    if (!action) return;
+
+    commitAction(action, renderAction(target, action), false);
+  };
+
+  /**
+   * Sizes the layer canvases for the document as it fits in the container, at the
+   * screen's pixel density. The sheet always keeps the document's aspect ratio, so
+   * rotating or resizing only changes resolution, never the drawing itself.
+   * Returns true if the canvases were resized and need a redraw.
+   */
+  const layoutCanvases = (): boolean => {
+    const canvas = canvasRef.current;
+    const lineArt = lineArtRef.current;
+    const overlay = overlayRef.current;
+    const container = containerRef.current;
+    if (!canvas || !lineArt || !overlay || !container) return false;
+
+    const doc = docRef.current;
+    const fit = fitView(container.clientWidth, container.clientHeight, doc.width, doc.height);
+    const pixelScale = Math.min(
+      (window.devicePixelRatio || 1) * fit.zoom,
+      MAX_CANVAS_DIMENSION / Math.max(doc.width, doc.height)
+    );
+    const width = Math.max(1, Math.round(doc.width * pixelScale));
+    const height = Math.max(1, Math.round(doc.height * pixelScale));
+
+    setSheetSize({ width: doc.width, height: doc.height });
+    setView(fit);
+
+    if (canvas.width === width && canvas.height === height) return false;
+    // Both layers and the overlays always share the same pixel size
+    canvas.width = lineArt.width = overlay.width = width;
+    canvas.height = lineArt.height = overlay.height = height;
+    const remoteLayer = remoteLayerRef.current;
+    if (remoteLayer) {
+      remoteLayer.width = width;
+      remoteLayer.height = height;
+      scheduleRemoteRender();
+    }
+    // Undo patches are in the old pixel size
+    historyRef.current.dropPatches();
+    return true;
+  };
 
   // Initialize canvas
   useEffect(() => {
     const canvas = canvasRef.current;
+    const lineArt = lineArtRef.current;
     const container = containerRef.current;
-    if (!canvas || !container) return;
-
-    // Set initial size
-    canvas.width = container.clientWidth;
-    canvas.height = container.clientHeight;
-
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      // Always fill with white first to ensure no transparency issues
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      
-      // Try to load saved canvas
-      const savedCanvas = localStorage.getItem('little-picasso-canvas');
-      
-      if (savedCanvas) {
-         const img = new Image();
-         img.src = savedCanvas;
-         img.onload = () => {
-             // Draw saved image
-             ctx.drawImage(img, 0, 0);
-             // Save to history
-             const currentData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-             setHistory([currentData]);
-         };
-      } else {
-        // Save initial blank state
-        const initialData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        setHistory([initialData]);
-      }
-      
-      onCanvasReady(canvas);
-    }
+    if (!canvas || !lineArt || !container) return;
+
+    // Start with a blank sheet in the container's orientation, until the host loads a drawing
+    docRef.current = createDefaultDocument(container.clientHeight > container.clientWidth);
+    historyRef.current.clear();
+    layoutCanvases();
+    redraw();
 
+    // Re-layout when the container changes size (window resize, device rotation)
+    // or the pixel density changes (moving to another screen, browser zoom)
+    let resizeTimer: number | undefined;
     const handleResize = () => {
-      // In a production app, we would handle resize by debouncing and restoring image data
+      window.clearTimeout(resizeTimer);
+      resizeTimer = window.setTimeout(() => {
+        if (layoutCanvases()) redraw();
+      }, RESIZE_DEBOUNCE_MS);
     };
 
+    const observer = new ResizeObserver(handleResize);
+    observer.observe(container);
     window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
+    return () => {
+      window.clearTimeout(resizeTimer);
+      observer.disconnect();
+      window.removeEventListener('resize', handleResize);
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Handle Clear
+  // Wheel zoom needs a non-passive listener so the page doesn't scroll
   useEffect(() => {
-    if (triggerClear === 0) return;
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (canvas && ctx) {
-      ctx.fillStyle = '#ffffff';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      saveHistory();
-    }
-  }, [triggerClear]);
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const focus = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      // Trackpad pinches arrive as wheel events with ctrlKey and small deltas
+      const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.0015));
+      setView((prev) => zoomAt(prev, focus, prev.zoom * factor));
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
 
-  // Handle Undo
+  // Hold space to drag the view around on desktop
   useEffect(() => {
-    // Check if we already processed this undo trigger to prevent infinite loops
-    if (triggerUndo === 0 || triggerUndo === prevTriggerUndo.current) return;
-    
-    prevTriggerUndo.current = triggerUndo;
+    const isTyping = (e: KeyboardEvent) =>
+      e.target instanceof HTMLElement && (e.target.tagName === 'INPUT' || e.target.tagName === 'TEXTAREA');
 
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    
-    if (canvas && ctx && history.length > 1) {
-        const newHistory = [...history];
-        newHistory.pop(); 
-        const previousState = newHistory[newHistory.length - 1];
-        
-        if (previousState) {
-            ctx.putImageData(previousState, 0, 0);
-            setHistory(newHistory);
-            saveToLocalStorage();
-        }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      spaceHeld.current = true;
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      spaceHeld.current = false;
+      setIsSpaceHeld(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  const fitToScreen = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    setView(fitView(container.clientWidth, container.clientHeight, sheetSize.width, sheetSize.height));
+  };
+
+  const clear = () => {
+    const target = getRenderTarget();
+    if (!target) return;
+    const action: DrawingAction = { type: 'clear' };
+    commitAction(action, renderAction(target, action));
+  };
+
+  const importImage = async (src: string) => {
+    const img = await loadImage(src);
+    imagesRef.current.set(src, img);
+    const target = getRenderTarget();
+    if (!target) return;
+    const action: DrawingAction = { type: 'import', src };
+    commitAction(action, renderAction(target, action));
+  };
+
+  const loadDocument = (doc: DrawingDocument) => {
+    docRef.current = { ...doc, actions: [...doc.actions] };
+    historyRef.current.clear();
+    layoutCanvases();
+    redraw();
+    notifyChange();
+  };
+
+  // Strokes in progress are redrawn whole, at most once per frame
+  const renderRemoteStrokes = () => {
+    const layer = remoteLayerRef.current;
+    const ctx = layer?.getContext('2d');
+    const target = getRenderTarget();
+    if (!layer || !ctx || !target) return;
+    ctx.clearRect(0, 0, layer.width, layer.height);
+    const remoteTarget = { ...target, paintCtx: ctx };
+    remoteStrokes.current.forEach((stroke) => renderAction(remoteTarget, stroke));
+  };
+
+  const scheduleRemoteRender = () => {
+    if (remoteFrame.current) return;
+    remoteFrame.current = requestAnimationFrame(() => {
+      remoteFrame.current = 0;
+      renderRemoteStrokes();
+    });
+  };
+
+  // Other artists' actions are drawn in the order they arrive, once their pictures are loaded
+  const applyRemoteActions = async () => {
+    if (isApplyingRemote.current) return;
+    isApplyingRemote.current = true;
+    try {
+      while (remoteQueue.current.length > 0 && !isDrawing.current) {
+        const { action, strokeId } = remoteQueue.current[0];
+        const images = await loadDocumentImages({ ...docRef.current, actions: [action] });
+        images.forEach((img, src) => imagesRef.current.set(src, img));
+        // This artist may have started a stroke while the pictures loaded
+        if (isDrawing.current || remoteQueue.current[0]?.action !== action) continue;
+
+        remoteQueue.current.shift();
+        const target = getRenderTarget();
+        if (target) recordAction(action, renderAction(target, action));
+        if (strokeId && remoteStrokes.current.delete(strokeId)) scheduleRemoteRender();
+      }
+    } finally {
+      isApplyingRemote.current = false;
     }
-  }, [triggerUndo, history]);
+  };
 
-  // Handle Imported Image
+  // Handle Shared Drawing
   useEffect(() => {
-    if (!importedImageSrc) return;
+    if (!collab) return;
 
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (canvas && ctx) {
-      const img = new Image();
-      img.src = importedImageSrc;
-      img.onload = () => {
-        // Clear canvas first
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        // Scale to fit while maintaining aspect ratio
-        const scale = Math.min(canvas.width / img.width, canvas.height / img.height);
-        const x = (canvas.width / 2) - (img.width / 2) * scale;
-        const y = (canvas.height / 2) - (img.height / 2) * scale;
-        
-        ctx.drawImage(img, x, y, img.width * scale, img.height * scale);
-        saveHistory();
-      };
-    }
-  }, [importedImageSrc]);
-
-  const saveToLocalStorage = () => {
-      const canvas = canvasRef.current;
-      if (canvas) {
-          try {
-            const dataUrl = canvas.toDataURL();
-            localStorage.setItem('little-picasso-canvas', dataUrl);
-          } catch (e) {
-              console.error("Failed to save canvas to localStorage", e);
-          }
+    const unsubscribe = collab.subscribe((from, op) => {
+      switch (op.type) {
+        case 'stroke':
+          remoteStrokes.current.set(op.strokeId, { ...op.stroke, points: [...op.stroke.points] });
+          scheduleRemoteRender();
+          break;
+        case 'points':
+          remoteStrokes.current.get(op.strokeId)?.points.push(...op.points);
+          scheduleRemoteRender();
+          break;
+        case 'cancel':
+          remoteStrokes.current.delete(op.strokeId);
+          scheduleRemoteRender();
+          break;
+        case 'action':
+          remoteQueue.current.push({ action: op.action, strokeId: op.strokeId });
+          applyRemoteActions();
+          break;
+        case 'cursor':
+          setRemoteCursors((prev) => {
+            const next = { ...prev };
+            if (op.point) next[from] = op.point;
+            else delete next[from];
+            return next;
+          });
+          break;
       }
-  };
+    });
+    return () => {
+      unsubscribe();
+      remoteStrokes.current.clear();
+      remoteQueue.current = [];
+      scheduleRemoteRender();
+      setRemoteCursors({});
+    };
+  }, [collab]);
 
-  const saveHistory = () => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (canvas && ctx) {
-        const currentData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        setHistory(prev => {
-            const newHist = [...prev, currentData];
-            if (newHist.length > 20) newHist.shift();
-            return newHist;
-        });
-        saveToLocalStorage();
-    }
+  const sendCursor = (e: React.PointerEvent) => {
+    if (!collab || e.timeStamp - lastCursorSent.current < CURSOR_INTERVAL_MS) return;
+    lastCursorSent.current = e.timeStamp;
+    const { x, y } = getCoordinates(e);
+    collab.send({ type: 'cursor', point: { x, y } });
   };
 
-  const getCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
+  useImperativeHandle(ref, () => ({
+    clear,
+    undo,
+    redo,
+    loadImage: importImage,
+    loadDocument,
+    exportBlob: (options = DEFAULT_EXPORT_OPTIONS) => exportDocument(getSnapshot().document, options),
+    getSnapshot,
+    getLayers: () => {
+      const paint = canvasRef.current;
+      const lineArt = lineArtRef.current;
+      return paint && lineArt ? { paint, lineArt } : null;
+    },
+    subscribe: (listener) => {
+      listenersRef.current.add(listener);
+      return () => listenersRef.current.delete(listener);
+    },
+  }));
+
+  // Returns the pointer position in document coordinates, with pressure for pens.
+  // The canvas bounding rect already includes the zoom and pan of the view.
+  const getCoordinates = (e: PointerEvent | React.PointerEvent): StrokePoint => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
     
     const rect = canvas.getBoundingClientRect();
-    let clientX, clientY;
+    const scale = getDocumentScale(docRef.current, canvas.width, canvas.height);
+    const pos: StrokePoint = {
+      x: ((e.clientX - rect.left) * (canvas.width / rect.width)) / scale,
+      y: ((e.clientY - rect.top) * (canvas.height / rect.height)) / scale
+    };
+    if (e.pointerType === 'pen') pos.pressure = e.pressure;
+    return pos;
+  };
 
-    if ('touches' in e) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    } else {
-      clientX = (e as React.MouseEvent).clientX;
-      clientY = (e as React.MouseEvent).clientY;
-    }
+  const isPalm = (e: PointerEvent | React.PointerEvent) =>
+    palmRejection && e.pointerType === 'touch' && Math.max(e.width, e.height) > PALM_CONTACT_SIZE;
 
+  // Viewport-relative midpoint and distance of the first two touch points
+  const getPinchGeometry = () => {
+    const [a, b] = [...touchPoints.current.values()];
+    const rect = containerRef.current?.getBoundingClientRect();
     return {
-      x: clientX - rect.left,
-      y: clientY - rect.top
+      distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+      mid: { x: (a.x + b.x) / 2 - (rect?.left ?? 0), y: (a.y + b.y) / 2 - (rect?.top ?? 0) },
     };
   };
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    if (e.type === 'mousedown' && (e as React.MouseEvent).button !== 0) return;
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'touch' && !isPalm(e)) {
+      touchPoints.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      e.currentTarget.setPointerCapture(e.pointerId);
+
+      // A second finger turns the stroke into a pinch/pan gesture
+      if (touchPoints.current.size === 2) {
+        cancelDrawing();
+        activePointer.current = null;
+        const { distance, mid } = getPinchGeometry();
+        pinch.current = { startDistance: distance, startMid: mid, startView: view };
+        return;
+      }
+    }
+    if (pinch.current || pan.current) return;
+
+    if (spaceHeld.current || (e.pointerType === 'mouse' && e.button === 1)) {
+      e.preventDefault();
+      pan.current = { pointerId: e.pointerId, start: { x: e.clientX, y: e.clientY }, startView: view };
+      e.currentTarget.setPointerCapture(e.pointerId);
+      return;
+    }
+
+    if (activePointer.current !== null) return;
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    if (penOnly && e.pointerType !== 'pen') return;
+    if (isPalm(e)) return;
+
+    activePointer.current = e.pointerId;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startDrawing(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    sendCursor(e);
+    if (touchPoints.current.has(e.pointerId)) {
+      touchPoints.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    }
+
+    if (pinch.current) {
+      if (touchPoints.current.size < 2) return;
+      const { startDistance, startMid, startView } = pinch.current;
+      const { distance, mid } = getPinchGeometry();
+      const zoomed = zoomAt(startView, startMid, startView.zoom * (distance / startDistance));
+      setView({ ...zoomed, x: zoomed.x + mid.x - startMid.x, y: zoomed.y + mid.y - startMid.y });
+      return;
+    }
+
+    if (pan.current) {
+      if (e.pointerId !== pan.current.pointerId) return;
+      const { start, startView } = pan.current;
+      setView({ ...startView, x: startView.x + e.clientX - start.x, y: startView.y + e.clientY - start.y });
+      return;
+    }
+
+    if (e.pointerId !== activePointer.current) return;
+    // A finger that flattens into a palm mid-stroke cancels the stroke
+    if (isPalm(e)) {
+      cancelDrawing();
+      activePointer.current = null;
+      return;
+    }
+    handleMove(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    touchPoints.current.delete(e.pointerId);
+    if (pinch.current) {
+      // The gesture ends once fingers lift, the remaining one doesn't start drawing
+      if (touchPoints.current.size === 0) pinch.current = null;
+      return;
+    }
+    if (pan.current?.pointerId === e.pointerId) {
+      pan.current = null;
+      return;
+    }
+
+    if (e.pointerId !== activePointer.current) return;
+    activePointer.current = null;
+    if (e.type === 'pointercancel') cancelDrawing();
+    else stopDrawing();
+  };
+
+  const handlePointerLeave = () => {
+    collab?.send({ type: 'cursor', point: null });
+  };
+
+  const startDrawing = (e: React.PointerEvent) => {
     const pos = getCoordinates(e);
+
+    // Taps only join dots until the picture is done
+    if (activity?.activity.type === 'dots' && !isActivityComplete(activity)) {
+        connect(pos);
+        return;
+    }
     
     if (tool === ToolType.BUCKET) {
-        const canvas = canvasRef.current;
-        const ctx = canvas?.getContext('2d');
-        if (canvas && ctx) {
-            floodFill(ctx, Math.floor(pos.x), Math.floor(pos.y), color, canvas.width, canvas.height);
-            saveHistory();
-        }
+        fill(pos);
+        return;
+    }
+
+    if (tool === ToolType.STAMP) {
+        stamp(pos);
+        return;
+    }
+
+    if (tool === ToolType.EYEDROPPER) {
+        pickColor(pos);
         return;
     }
 
     isDrawing.current = true;
     lastPos.current = pos;
+
+    if (tool === ToolType.SHAPE) {
+        currentShape.current = {
+          type: 'shape', shape, color, size: brushSize, filled: shapeFilled, start: pos, end: pos
+        };
+        return;
+    }
+
+    const stroke: StrokeAction = { type: 'stroke', tool, color, size: brushSize, points: [pos] };
+    if (tool === ToolType.BRUSH && brushPreset !== BrushPreset.ROUND) {
+      stroke.brush = brushPreset;
+      stroke.seed = createStrokeSeed();
+    }
+    if (symmetry.mode !== SymmetryMode.NONE) stroke.symmetry = { ...symmetry };
+    currentStroke.current = stroke;
+    if (collab) {
+      liveStrokeId.current = `${collab.userId}-${++strokeCount.current}`;
+      collab.send({ type: 'stroke', strokeId: liveStrokeId.current, stroke: { ...stroke, points: [...stroke.points] } });
+    }
+    const target = getRenderTarget();
+    strokeState.current = target ? beginStroke(target, stroke, committedRef.current) : null;
     draw(pos, pos);
   };
 
-  const draw = (start: {x: number, y: number}, end: {x: number, y: number}) => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!canvas || !ctx) return;
+  const pickColor = (pos: Point) => {
+    const target = getRenderTarget();
+    if (!target) return;
+    const { width, height } = target.paintCtx.canvas;
+    const x = Math.min(width - 1, Math.max(0, Math.floor(pos.x * target.scale)));
+    const y = Math.min(height - 1, Math.max(0, Math.floor(pos.y * target.scale)));
+    onPickColor?.(sampleColor(target, x, y));
+  };
 
-    ctx.beginPath();
-    ctx.moveTo(start.x, start.y);
-    ctx.lineTo(end.x, end.y);
-    
-    ctx.strokeStyle = tool === ToolType.ERASER ? '#ffffff' : color;
-    ctx.lineWidth = brushSize;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    ctx.stroke();
+  const stamp = async (pos: Point) => {
+    const action: StampAction = { type: 'stamp', sticker, color, size: getStampSize(brushSize), x: pos.x, y: pos.y };
+    const src = getStampSrc(action);
+    if (!src) return;
+
+    try {
+      imagesRef.current.set(src, await loadImage(src));
+    } catch (e) {
+      console.error("Failed to load sticker", e);
+      return;
+    }
+    const target = getRenderTarget();
+    if (target) commitAction(action, renderAction(target, action));
+  };
+
+  const connect = (pos: Point) => {
+    const result = activity ? connectDot(activity, pos) : null;
+    const target = getRenderTarget();
+    if (!result || !target) return;
+
+    result.lines.forEach(([start, end]) => {
+      const line: ShapeAction = {
+        type: 'shape', shape: ShapeType.LINE, color, size: DOT_LINE_WIDTH, filled: false, start, end
+      };
+      commitAction(line, renderAction(target, line));
+    });
+    onActivityChange?.(result.progress);
   };
 
-  const handleMove = (e: React.MouseEvent | React.TouchEvent) => {
+  const clearOverlay = () => {
+    const overlay = overlayRef.current;
+    overlay?.getContext('2d')?.clearRect(0, 0, overlay.width, overlay.height);
+  };
+
+  // Shapes are previewed on the overlay and only touch the paint layer on release
+  const previewShape = (pos: Point, constrain: boolean) => {
+    const shapeAction = currentShape.current;
+    const target = getRenderTarget();
+    const ctx = overlayRef.current?.getContext('2d');
+    if (!shapeAction || !target || !ctx) return;
+
+    shapeAction.end = constrain || lockAspect ? constrainShapeEnd(shapeAction.shape, shapeAction.start, pos) : pos;
+    clearOverlay();
+    drawShape(ctx, shapeAction, target.scale);
+  };
+
+  // The fill region is found off the main thread, then painted here
+  const fill = async (pos: Point) => {
+    const target = getRenderTarget();
+    if (!target) return;
+
+    const action: FillAction = { type: 'fill', x: pos.x, y: pos.y, color, tolerance: fillTolerance, gapClosing };
+    const start = getFillStart(target, action);
+    const boundary = getFillBoundary(target);
+    if (!start || !boundary) return;
+
+    let dirty: Rect | null;
+    try {
+      const region = await requestFillRegion(boundary, start.x, start.y, action.color, getFillOptions(action));
+      if (region) applyFillRegion(target.paintCtx, region, action.color);
+      dirty = region ? region.rect : null;
+    } catch (e) {
+      console.error("Fill worker failed, filling on the main thread", e);
+      dirty = renderAction(target, action);
+    }
+
+    // Filling with the same color changes nothing, so there is nothing to undo
+    if (dirty) commitAction(action, dirty);
+  };
+
+  const draw = (start: Point, end: Point) => {
+    const target = getRenderTarget();
+    const stroke = currentStroke.current;
+    if (!target || !stroke || !strokeState.current) return;
+
+    drawStrokeSegment(target, stroke, start, end, strokeState.current);
+  };
+
+  const handleMove = (e: React.PointerEvent) => {
     if (!isDrawing.current || !lastPos.current || tool === ToolType.BUCKET) return;
+
+    if (currentShape.current) {
+      previewShape(getCoordinates(e), e.shiftKey);
+      return;
+    }
     
-    const newPos = getCoordinates(e);
-    draw(lastPos.current, newPos);
-    lastPos.current = newPos;
+    // Coalesced events carry the points the browser merged between frames, so fast strokes stay smooth
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const events = coalesced.length > 0 ? coalesced : [e.nativeEvent];
+    const added = events.map((event) => {
+      const newPos = getCoordinates(event);
+      currentStroke.current?.points.push(newPos);
+      draw(lastPos.current!, newPos);
+      lastPos.current = newPos;
+      return newPos;
+    });
+    if (collab && liveStrokeId.current) collab.send({ type: 'points', strokeId: liveStrokeId.current, points: added });
   };
 
   const stopDrawing = () => {
     if (isDrawing.current) {
       isDrawing.current = false;
       lastPos.current = null;
-      saveHistory();
+      const target = getRenderTarget();
+      const stroke = currentStroke.current;
+      if (target && stroke) {
+        recordAction(stroke, getStrokeBounds(target, stroke));
+        collab?.send({ type: 'action', action: stroke, strokeId: liveStrokeId.current ?? undefined });
+      }
+      liveStrokeId.current = null;
+      if (stroke && stroke.tool !== ToolType.ERASER && activity?.activity.type === 'trace') {
+        onActivityChange?.(traceStroke(activity, stroke.points, stroke.size));
+      }
+      currentStroke.current = null;
+      strokeState.current = null;
+
+      // The whole shape lands as a single step, a tap without dragging adds nothing
+      const shapeAction = currentShape.current;
+      clearOverlay();
+      const hasSize = shapeAction && (shapeAction.start.x !== shapeAction.end.x || shapeAction.start.y !== shapeAction.end.y);
+      if (target && shapeAction && hasSize) commitAction(shapeAction, renderAction(target, shapeAction));
+      currentShape.current = null;
+    }
+    applyRemoteActions();
+  };
+
+  // Drop the stroke in progress and restore the pixels it covered
+  const cancelDrawing = () => {
+    if (!isDrawing.current) return;
+    isDrawing.current = false;
+    lastPos.current = null;
+
+    const target = getRenderTarget();
+    const stroke = currentStroke.current;
+    const committed = committedRef.current;
+    const dirty = target && stroke ? getStrokeBounds(target, stroke) : null;
+    if (target && committed && dirty) {
+      target.paintCtx.clearRect(dirty.x, dirty.y, dirty.width, dirty.height);
+      target.paintCtx.drawImage(
+        committed,
+        dirty.x, dirty.y, dirty.width, dirty.height,
+        dirty.x, dirty.y, dirty.width, dirty.height
+      );
     }
+    currentStroke.current = null;
+    strokeState.current = null;
+    currentShape.current = null;
+    clearOverlay();
+    if (collab && liveStrokeId.current) collab.send({ type: 'cancel', strokeId: liveStrokeId.current });
+    liveStrokeId.current = null;
+    applyRemoteActions();
   };
 
   // Generate dynamic SVG cursor based on tool and size
   const getCursorStyle = (): React.CSSProperties => {
+    if (isSpaceHeld) return { cursor: 'grab' };
+
+    if (tool === ToolType.SHAPE || tool === ToolType.STAMP || tool === ToolType.EYEDROPPER) return { cursor: 'crosshair' };
+
     if (tool === ToolType.BUCKET) {
         // SVG for paint bucket
         const bucketSvg = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="black" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M19 11L11 19"/><path d="M22 2l-7 7L3 21l8-8 7 7 4-11z"/></svg>`;
         return { cursor: `url('data:image/svg+xml;utf8,${encodeURIComponent(bucketSvg)}') 0 22, auto` };
     }
 
-    // Minimum visual size for the cursor so it doesn't disappear
-    const size = Math.max(brushSize, 4);
+    // Minimum visual size for the cursor so it doesn't disappear, browsers cap cursors at 128px
+    const size = Math.min(Math.max(brushSize * view.zoom, 4), 120);
     const svgSize = size + 8; // Add padding to avoid clipping the stroke
     const center = svgSize / 2;
     const radius = size / 2;
@@ -269,20 +910,123 @@ export const Canvas: React.FC<CanvasProps> = ({
   return (
     <div 
         ref={containerRef} 
-        className="w-full h-full relative rounded-3xl overflow-hidden shadow-inner bg-white border-2 border-dashed border-gray-300"
-    >
-      <canvas
-        ref={canvasRef}
-        className="touch-none w-full h-full"
+        className="w-full h-full relative rounded-3xl overflow-hidden shadow-inner bg-gray-100 border-2 border-dashed border-gray-300 touch-none"
         style={getCursorStyle()}
-        onMouseDown={startDrawing}
-        onMouseMove={handleMove}
-        onMouseUp={stopDrawing}
-        onMouseLeave={stopDrawing}
-        onTouchStart={startDrawing}
-        onTouchMove={handleMove}
-        onTouchEnd={stopDrawing}
-      />
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerLeave}
+    >
+      {/* Sheet: both layers, zoomed and panned together */}
+      <div
+        className="absolute top-0 left-0 bg-white origin-top-left"
+        style={{ width: sheetSize.width, height: sheetSize.height, transform: toCssTransform(view) }}
+      >
+        <canvas
+          ref={canvasRef}
+          data-layer="paint"
+          className="absolute inset-0 w-full h-full"
+        />
+        <canvas
+          ref={remoteLayerRef}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        />
+        <canvas
+          ref={lineArtRef}
+          data-layer="lineArt"
+          className="absolute inset-0 w-full h-full pointer-events-none mix-blend-multiply"
+        />
+        <canvas
+          ref={overlayRef}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+        />
+        {showSymmetryGuides && symmetry.mode !== SymmetryMode.NONE && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox={`0 0 ${sheetSize.width} ${sheetSize.height}`}
+          >
+            {getSymmetryGuides(symmetry, sheetSize.width, sheetSize.height).map(([a, b], i) => (
+              <line
+                key={i}
+                x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                stroke="#a855f7"
+                strokeOpacity={0.5}
+                strokeWidth={2}
+                strokeDasharray="10 8"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+        )}
+        {activity && <ActivityOverlay progress={activity} width={sheetSize.width} height={sheetSize.height} />}
+        {numberLabels.length > 0 && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none select-none"
+            viewBox={`0 0 ${sheetSize.width} ${sheetSize.height}`}
+          >
+            {numberLabels.map((region) => (
+              <text
+                key={region.label}
+                x={region.x}
+                y={region.y}
+                fontSize={region.size}
+                fontWeight="bold"
+                fontFamily="sans-serif"
+                textAnchor="middle"
+                dominantBaseline="central"
+                fill="#475569"
+                stroke="white"
+                strokeWidth={region.size / 6}
+                paintOrder="stroke"
+              >
+                {region.number}
+              </text>
+            ))}
+          </svg>
+        )}
+        {collabUsers.some((user) => remoteCursors[user.id]) && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none select-none overflow-visible"
+            viewBox={`0 0 ${sheetSize.width} ${sheetSize.height}`}
+          >
+            {collabUsers.map((user) => {
+              const point = remoteCursors[user.id];
+              if (!point) return null;
+              // Same size on screen at any zoom
+              const unit = 1 / view.zoom;
+              return (
+                <g key={user.id}>
+                  <circle cx={point.x} cy={point.y} r={7 * unit} fill={user.color} stroke="white" strokeWidth={2 * unit} />
+                  <text
+                    x={point.x + 10 * unit}
+                    y={point.y - 10 * unit}
+                    fontSize={14 * unit}
+                    fontWeight="bold"
+                    fontFamily="sans-serif"
+                    fill={user.color}
+                    stroke="white"
+                    strokeWidth={3 * unit}
+                    paintOrder="stroke"
+                  >
+                    {user.name}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        )}
+      </div>
+
+      <button
+        onClick={fitToScreen}
+        onPointerDown={(e) => e.stopPropagation()}
+        className="absolute bottom-3 right-3 flex items-center gap-1 px-3 py-2 bg-white/90 text-gray-600 rounded-xl shadow-md hover:bg-white transition-colors text-xs font-bold"
+        title="Fit to screen"
+      >
+        <Maximize size={16} />
+        {Math.round(view.zoom * 100)}%
+      </button>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { LogOut, Users, X } from 'lucide-react';
+import { CollabSettings, CollabUser, normalizeRoomCode } from '../services/collab';
+
+interface CollabDialogProps {
+  settings: CollabSettings;
+  // Code of the room this drawing is shared in, null when drawing alone
+  room: string | null;
+  users: CollabUser[];
+  isConnecting: boolean;
+  onStart: (settings: CollabSettings) => void;
+  onJoin: (settings: CollabSettings, room: string) => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+export const CollabDialog: React.FC<CollabDialogProps> = ({
+  settings,
+  room,
+  users,
+  isConnecting,
+  onStart,
+  onJoin,
+  onLeave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<CollabSettings>(settings);
+  const [code, setCode] = useState('');
+  const update = (changes: Partial<CollabSettings>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const inputClass = 'px-3 py-2 rounded-xl border-2 border-gray-200 text-sm focus:border-blue-400 outline-none';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-blue-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-200 w-full max-w-md flex flex-col gap-4 p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-black text-blue-900">Draw Together</h2>
+          <button onClick={onClose} className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        {room ? (
+          <>
+            <div className="flex flex-col items-center gap-1">
+              <span className="text-xs font-bold text-gray-500">Room code</span>
+              <span className="text-5xl font-black tracking-widest text-blue-900">{room}</span>
+              <span className="text-sm text-gray-500">Friends can join with this code</span>
+            </div>
+            <ul className="flex flex-col gap-1">
+              {users.map((user) => (
+                <li key={user.id} className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                  <span className="w-4 h-4 rounded-full" style={{ backgroundColor: user.color }} />
+                  {user.name}
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={onLeave}
+              className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-red-100 text-red-600 font-bold hover:bg-red-200"
+            >
+              <LogOut size={20} />
+              Leave Room
+            </button>
+          </>
+        ) : (
+          <>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-bold text-gray-500">Your name</span>
+              <input
+                value={draft.name}
+                onChange={(e) => update({ name: e.target.value })}
+                maxLength={20}
+                placeholder="Artist"
+                className={inputClass}
+              />
+            </label>
+
+            <button
+              onClick={() => onStart(draft)}
+              disabled={isConnecting}
+              className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-blue-500 text-white font-bold shadow-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              <Users size={20} />
+              {isConnecting ? 'Connecting...' : 'Share This Drawing'}
+            </button>
+
+            <form
+              className="flex flex-col gap-1"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (code) onJoin(draft, code);
+              }}
+            >
+              <span className="text-xs font-bold text-gray-500">Or join a friend's room</span>
+              <div className="flex gap-2">
+                <input
+                  value={code}
+                  onChange={(e) => setCode(normalizeRoomCode(e.target.value))}
+                  maxLength={8}
+                  placeholder="CODE"
+                  autoCapitalize="characters"
+                  className={`${inputClass} flex-1 text-xl font-black tracking-widest text-center`}
+                />
+                <button
+                  type="submit"
+                  disabled={isConnecting || !code}
+                  className="px-4 py-2 rounded-2xl bg-green-500 text-white font-bold shadow-lg hover:bg-green-600 disabled:opacity-50"
+                >
+                  Join
+                </button>
+              </div>
+            </form>
+
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-bold text-gray-500">Relay address</span>
+              <input
+                value={draft.serverUrl}
+                onChange={(e) => update({ serverUrl: e.target.value.trim() })}
+                placeholder="ws://192.168.1.20:8787"
+                className={inputClass}
+              />
+              <span className="text-xs text-gray-500">A grown-up starts the relay with `npm run relay` on a computer on the same network.</span>
+            </label>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
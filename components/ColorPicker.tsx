@@ -1,12 +1,30 @@
 import React from 'react';
-import { Check } from 'lucide-react';
+import { Check, Save, Trash2 } from 'lucide-react';
+import {
+  BASIC_PALETTE_ID,
+  MAX_SAVED_PALETTES,
+  PALETTE_SETS,
+  Palette,
+  PaletteSettings,
+  createPalette,
+} from '../utils/palettes';
 
 interface ColorPickerProps {
   selectedColor: string;
   onSelectColor: (color: string) => void;
+  // Percentage, applies to whichever color is selected
+  opacity: number;
+  onOpacityChange: (opacity: number) => void;
+  // Palette shown, recent colors and the kid's own palettes, see utils/palettes.ts
+  paletteSettings: PaletteSettings;
+  onPaletteSettingsChange: (settings: PaletteSettings) => void;
+  // Colors a grown-up picked, empty offers all of them plus the custom color picker
+  allowedColors?: string[];
+  // Color-by-number palette, each color shows its number
+  numberedColors?: string[];
 }
 
-const COLORS = [
+export const COLORS = [
   '#ef4444', // Red
   '#f97316', // Orange
   '#eab308', // Yellow
@@ -21,36 +39,162 @@ const COLORS = [
   '#94a3b8', // Gray
 ];
 
-export const ColorPicker: React.FC<ColorPickerProps> = ({ selectedColor, onSelectColor }) => {
+const BASIC_PALETTE: Palette = { id: BASIC_PALETTE_ID, name: 'Basic', colors: COLORS };
+
+// Checks stay readable on light colors
+const isLight = (color: string) => {
+  const value = parseInt(color.slice(1, 7), 16);
+  return ((value >> 16) & 255) * 0.299 + ((value >> 8) & 255) * 0.587 + (value & 255) * 0.114 > 186;
+};
+
+interface SwatchProps {
+  color: string;
+  isSelected: boolean;
+  onSelect: (color: string) => void;
+  number?: number;
+  small?: boolean;
+}
+
+const Swatch: React.FC<SwatchProps> = ({ color, isSelected, onSelect, number = 0, small = false }) => (
+  <button
+    onClick={() => onSelect(color)}
+    className={`relative ${small ? 'w-7 h-7' : 'w-10 h-10'} rounded-full border-2 transition-transform hover:scale-110 flex items-center justify-center ${
+      isSelected ? 'border-gray-800 scale-110 shadow-md' : color === '#ffffff' ? 'border-gray-200' : 'border-transparent'
+    }`}
+    style={{ backgroundColor: color }}
+    aria-label={number ? `Select color ${number}` : `Select color ${color}`}
+  >
+    {isSelected && (
+      <Check size={small ? 14 : 20} className={isLight(color) ? 'text-black' : 'text-white'} />
+    )}
+    {number > 0 && (
+      <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-white border-2 border-gray-300 text-xs font-black text-gray-700 flex items-center justify-center">
+        {number}
+      </span>
+    )}
+  </button>
+);
+
+export const ColorPicker: React.FC<ColorPickerProps> = ({
+  selectedColor,
+  onSelectColor,
+  opacity,
+  onOpacityChange,
+  paletteSettings,
+  onPaletteSettingsChange,
+  allowedColors = [],
+  numberedColors = [],
+}) => {
+  const isRestricted = allowedColors.length > 0;
+  // Palettes are for free drawing, color by number needs the colors it numbered
+  const showPalettes = !isRestricted && numberedColors.length === 0;
+  const { paletteId, recentColors, savedPalettes } = paletteSettings;
+  const palettes = [BASIC_PALETTE, ...PALETTE_SETS, ...savedPalettes];
+  const palette = (showPalettes && palettes.find((p) => p.id === paletteId)) || BASIC_PALETTE;
+  const colors = isRestricted ? COLORS.filter((color) => allowedColors.includes(color)) : palette.colors;
+  const isSaved = savedPalettes.some((p) => p.id === palette.id);
+
+  const handleSavePalette = () => {
+    const saved = createPalette(savedPalettes, recentColors);
+    onPaletteSettingsChange({ ...paletteSettings, paletteId: saved.id, savedPalettes: [...savedPalettes, saved] });
+  };
+
+  const handleDeletePalette = () => {
+    if (!window.confirm(`Delete "${palette.name}"?`)) return;
+    onPaletteSettingsChange({
+      ...paletteSettings,
+      paletteId: BASIC_PALETTE_ID,
+      savedPalettes: savedPalettes.filter((p) => p.id !== palette.id),
+    });
+  };
+
   return (
-    <div className="flex flex-wrap gap-2 p-3 bg-white rounded-2xl shadow-lg border-2 border-purple-100 justify-center max-w-md mx-auto">
-      {COLORS.map((color) => (
-        <button
-          key={color}
-          onClick={() => onSelectColor(color)}
-          className={`w-10 h-10 rounded-full border-2 transition-transform hover:scale-110 flex items-center justify-center ${
-            selectedColor === color ? 'border-gray-800 scale-110 shadow-md' : 'border-transparent'
-          }`}
-          style={{ backgroundColor: color }}
-          aria-label={`Select color ${color}`}
-        >
-          {selectedColor === color && (
-            <Check size={20} className={color === '#ffffff' ? 'text-black' : 'text-white'} />
+    <div className="flex flex-col gap-2 p-3 bg-white rounded-2xl shadow-lg border-2 border-purple-100 max-w-md mx-auto">
+      {showPalettes && (
+        <div className="flex items-center gap-1 overflow-x-auto">
+          {palettes.map((option) => {
+            const isActive = option.id === palette.id;
+            return (
+              <button
+                key={option.id}
+                onClick={() => onPaletteSettingsChange({ ...paletteSettings, paletteId: option.id })}
+                className={`px-2 py-1 rounded-lg transition-colors text-xs font-semibold whitespace-nowrap ${isActive ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                aria-pressed={isActive}
+              >
+                {option.name}
+              </button>
+            );
+          })}
+          {isSaved && (
+            <button
+              onClick={handleDeletePalette}
+              className="p-1 rounded-lg text-gray-500 hover:bg-gray-100"
+              title="Delete this palette"
+            >
+              <Trash2 size={14} />
+            </button>
           )}
-        </button>
-      ))}
-      <div className="w-px h-10 bg-gray-200 mx-2"></div>
-       <label className="relative cursor-pointer group">
-        <div className="w-10 h-10 rounded-full border-2 border-gray-300 bg-gradient-to-br from-red-400 via-green-400 to-blue-400 flex items-center justify-center transition-transform hover:scale-110">
-            <span className="text-white text-xs font-bold drop-shadow-md">+</span>
         </div>
-        <input 
-            type="color" 
-            value={selectedColor}
-            onChange={(e) => onSelectColor(e.target.value)}
-            className="absolute opacity-0 inset-0 cursor-pointer w-full h-full"
+      )}
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        {colors.map((color) => (
+          <Swatch
+            key={color}
+            color={color}
+            isSelected={selectedColor === color}
+            onSelect={onSelectColor}
+            number={numberedColors.indexOf(color) + 1}
+          />
+        ))}
+        {!isRestricted && (
+        <>
+        <div className="w-px h-10 bg-gray-200 mx-2"></div>
+         <label className="relative cursor-pointer group">
+          <div className="w-10 h-10 rounded-full border-2 border-gray-300 bg-gradient-to-br from-red-400 via-green-400 to-blue-400 flex items-center justify-center transition-transform hover:scale-110">
+              <span className="text-white text-xs font-bold drop-shadow-md">+</span>
+          </div>
+          <input
+              type="color"
+              value={selectedColor}
+              onChange={(e) => onSelectColor(e.target.value)}
+              className="absolute opacity-0 inset-0 cursor-pointer w-full h-full"
+          />
+         </label>
+        </>
+        )}
+      </div>
+
+      {showPalettes && recentColors.length > 0 && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold text-gray-500">Recent</span>
+          {recentColors.map((color) => (
+            <Swatch key={color} color={color} isSelected={selectedColor === color} onSelect={onSelectColor} small />
+          ))}
+          <button
+            onClick={handleSavePalette}
+            disabled={savedPalettes.length >= MAX_SAVED_PALETTES}
+            className="ml-auto p-1 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Save these colors as a palette"
+          >
+            <Save size={16} />
+          </button>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2">
+        <span className="text-xs font-bold text-gray-500">Opacity</span>
+        <input
+            type="range"
+            min="10"
+            max="100"
+            step="5"
+            value={opacity}
+            onChange={(e) => onOpacityChange(Number(e.target.value))}
+            className="flex-1 accent-purple-500 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
         />
-       </label>
+        <span className="w-10 text-xs font-bold text-gray-500 text-right">{opacity}%</span>
+      </label>
     </div>
   );
-};
\ No newline at end of file
+};
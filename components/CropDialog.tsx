@@ -0,0 +1,195 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Crop, X } from 'lucide-react';
+import { CropRect } from '../utils/image';
+import { DIFFICULTIES, Difficulty, MAX_VARIANTS, MagicImportOptions } from '../services/coloringPage';
+
+interface CropDialogProps {
+  // Upright photo as returned by loadPhoto
+  photo: HTMLCanvasElement;
+  // Shown when the photo goes to the Magic Import service, not when it's traced
+  magicOptions?: MagicImportOptions;
+  onMagicOptionsChange?: (options: MagicImportOptions) => void;
+  onConfirm: (crop: CropRect | null) => void;
+  onClose: () => void;
+}
+
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface Drag {
+  mode: DragMode;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+}
+
+// Smallest crop, as a fraction of the photo, so the box stays grabbable
+const MIN_CROP = 0.1;
+
+const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const moveCrop = (crop: CropRect, mode: DragMode, dx: number, dy: number): CropRect => {
+  if (mode === 'move') {
+    return {
+      ...crop,
+      x: clamp(crop.x + dx, 0, 1 - crop.width),
+      y: clamp(crop.y + dy, 0, 1 - crop.height),
+    };
+  }
+  let left = crop.x;
+  let top = crop.y;
+  let right = crop.x + crop.width;
+  let bottom = crop.y + crop.height;
+  if (mode === 'nw' || mode === 'sw') left = clamp(left + dx, 0, right - MIN_CROP);
+  if (mode === 'ne' || mode === 'se') right = clamp(right + dx, left + MIN_CROP, 1);
+  if (mode === 'nw' || mode === 'ne') top = clamp(top + dy, 0, bottom - MIN_CROP);
+  if (mode === 'sw' || mode === 'se') bottom = clamp(bottom + dy, top + MIN_CROP, 1);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const HANDLES: { mode: DragMode; className: string }[] = [
+  { mode: 'nw', className: '-left-1 -top-1 cursor-nwse-resize' },
+  { mode: 'ne', className: '-right-1 -top-1 cursor-nesw-resize' },
+  { mode: 'sw', className: '-left-1 -bottom-1 cursor-nesw-resize' },
+  { mode: 'se', className: '-right-1 -bottom-1 cursor-nwse-resize' },
+];
+
+export const CropDialog: React.FC<CropDialogProps> = ({
+  photo,
+  magicOptions,
+  onMagicOptionsChange,
+  onConfirm,
+  onClose
+}) => {
+  const [crop, setCrop] = useState<CropRect>(FULL_CROP);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const src = useMemo(() => photo.toDataURL('image/jpeg', 0.9), [photo]);
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, startCrop: crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current;
+    if (!drag || !frame || drag.pointerId !== e.pointerId) return;
+    const rect = frame.getBoundingClientRect();
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    setCrop(moveCrop(drag.startCrop, drag.mode, dx, dy));
+  };
+
+  const endDrag = (e: React.PointerEvent) => {
+    if (dragRef.current?.pointerId === e.pointerId) dragRef.current = null;
+  };
+
+  const optionClass = (isActive: boolean) =>
+    `px-3 py-2 rounded-xl text-sm font-semibold transition-colors ${
+      isActive ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+    }`;
+
+  const isFullPhoto = crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-blue-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-200 w-full max-w-2xl max-h-full flex flex-col gap-4 p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-black text-blue-900">Pick the Best Part</h2>
+          <button onClick={onClose} className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex items-center justify-center">
+          <div
+            ref={frameRef}
+            className="relative select-none touch-none overflow-hidden rounded-xl"
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+          >
+            <img src={src} alt="Photo to crop" className="block max-w-full max-h-[60vh]" draggable={false} />
+            <div
+              className="absolute border-4 border-white rounded-lg cursor-move shadow-[0_0_0_9999px_rgba(30,58,138,0.5)]"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`,
+              }}
+              onPointerDown={startDrag('move')}
+            >
+              {HANDLES.map((handle) => (
+                <div
+                  key={handle.mode}
+                  className={`absolute w-6 h-6 rounded-full bg-yellow-300 border-4 border-white shadow ${handle.className}`}
+                  onPointerDown={startDrag(handle.mode)}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {magicOptions && onMagicOptionsChange && (
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="flex-1 flex flex-col gap-1">
+              <span className="text-xs font-bold text-gray-500">How detailed?</span>
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(DIFFICULTIES) as Difficulty[]).map((difficulty) => (
+                  <button
+                    key={difficulty}
+                    onClick={() => onMagicOptionsChange({ ...magicOptions, difficulty })}
+                    className={optionClass(magicOptions.difficulty === difficulty)}
+                    aria-pressed={magicOptions.difficulty === difficulty}
+                  >
+                    {DIFFICULTIES[difficulty].emoji} {DIFFICULTIES[difficulty].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-col gap-1">
+              <span className="text-xs font-bold text-gray-500">Pages to choose from</span>
+              <div className="grid grid-cols-3 gap-2">
+                {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map((variants) => (
+                  <button
+                    key={variants}
+                    onClick={() => onMagicOptionsChange({ ...magicOptions, variants })}
+                    className={optionClass(magicOptions.variants === variants)}
+                    aria-pressed={magicOptions.variants === variants}
+                  >
+                    {variants}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onConfirm(null)}
+            className="flex-1 px-4 py-3 rounded-2xl bg-gray-100 text-gray-600 font-bold hover:bg-gray-200"
+          >
+            Use Whole Photo
+          </button>
+          <button
+            onClick={() => onConfirm(isFullPhoto ? null : crop)}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-blue-500 text-white font-bold shadow-lg hover:bg-blue-600"
+          >
+            <Crop size={20} />
+            Use This Part
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_SCALES, ExportFormat, ExportOptions, getExportSize } from '../utils/export';
+import { PAPER_SIZES, PaperSize } from '../utils/pdf';
+
+interface ExportDialogProps {
+  // Document size, to show the pixel size of each option
+  width: number;
+  height: number;
+  // Whether there is an imported coloring page to export on its own
+  hasLineArt: boolean;
+  isExporting: boolean;
+  onExport: (options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: 'png', label: 'PNG', hint: 'Best quality picture' },
+  { format: 'jpeg', label: 'JPEG', hint: 'Smaller file' },
+  { format: 'pdf', label: 'PDF', hint: 'Ready to print' },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  width,
+  height,
+  hasLineArt,
+  isExporting,
+  onExport,
+  onClose
+}) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const update = (changes: Partial<ExportOptions>) => setOptions((prev) => ({ ...prev, ...changes }));
+
+  const optionClass = (isActive: boolean) =>
+    `px-3 py-2 rounded-xl text-sm font-semibold transition-colors ${
+      isActive ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-blue-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-200 w-full max-w-md flex flex-col gap-4 p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-black text-blue-900">Save Picture</h2>
+          <button onClick={onClose} className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-gray-500">Format</span>
+          <div className="grid grid-cols-3 gap-2">
+            {FORMATS.map((option) => (
+              <button
+                key={option.format}
+                onClick={() => update({ format: option.format })}
+                className={optionClass(options.format === option.format)}
+                aria-pressed={options.format === option.format}
+              >
+                {option.label}
+                <span className="block text-[10px] font-normal opacity-80">{option.hint}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {options.format === 'pdf' ? (
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-bold text-gray-500">Paper</span>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(PAPER_SIZES) as PaperSize[]).map((paper) => (
+                <button
+                  key={paper}
+                  onClick={() => update({ paper })}
+                  className={optionClass(options.paper === paper)}
+                  aria-pressed={options.paper === paper}
+                >
+                  {PAPER_SIZES[paper].label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-bold text-gray-500">Size</span>
+            <div className="grid grid-cols-3 gap-2">
+              {EXPORT_SCALES.map((scale) => {
+                const size = getExportSize({ width, height }, scale);
+                return (
+                  <button
+                    key={scale}
+                    onClick={() => update({ scale })}
+                    className={optionClass(options.scale === scale)}
+                    aria-pressed={options.scale === scale}
+                  >
+                    {scale}x
+                    <span className="block text-[10px] font-normal opacity-80">
+                      {size.width} × {size.height}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <label className={`flex items-center gap-2 text-sm font-semibold ${hasLineArt ? 'text-gray-700' : 'text-gray-400'}`}>
+          <input
+            type="checkbox"
+            checked={options.lineArtOnly && hasLineArt}
+            disabled={!hasLineArt}
+            onChange={(e) => update({ lineArtOnly: e.target.checked })}
+            className="w-4 h-4"
+          />
+          Blank coloring page only (to color by hand)
+        </label>
+
+        <button
+          onClick={() => onExport({ ...options, lineArtOnly: options.lineArtOnly && hasLineArt })}
+          disabled={isExporting}
+          className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-green-500 text-white font-bold shadow-lg hover:bg-green-600 disabled:opacity-50"
+        >
+          <Download size={20} />
+          {isExporting ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Plus, Copy, Pencil, Trash2, X, Check } from 'lucide-react';
+import { DrawingSummary } from '../utils/gallery';
+
+interface GalleryProps {
+  drawings: DrawingSummary[];
+  currentDrawingId: string | null;
+  onNew: () => void;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export const Gallery: React.FC<GalleryProps> = ({
+  drawings,
+  currentDrawingId,
+  onNew,
+  onOpen,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onClose
+}) => {
+  // Drawing whose name is being edited, and the name typed so far
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (drawing: DrawingSummary) => {
+    setEditingId(drawing.id);
+    setDraftName(drawing.name);
+  };
+
+  const finishRename = () => {
+    const name = draftName.trim();
+    if (editingId && name) onRename(editingId, name);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-blue-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-200 w-full max-w-4xl max-h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 pb-2">
+          <h2 className="text-2xl font-black text-blue-900">My Drawings</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 pt-2 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+          <button
+            onClick={onNew}
+            className="aspect-[4/3] rounded-2xl border-4 border-dashed border-blue-200 text-blue-500 hover:bg-blue-50 flex flex-col items-center justify-center font-bold"
+          >
+            <Plus size={32} />
+            New Drawing
+          </button>
+
+          {drawings.map((drawing) => {
+            const isCurrent = drawing.id === currentDrawingId;
+            return (
+              <div
+                key={drawing.id}
+                className={`rounded-2xl border-4 overflow-hidden flex flex-col ${isCurrent ? 'border-blue-500' : 'border-gray-100'}`}
+              >
+                <button
+                  onClick={() => onOpen(drawing.id)}
+                  className="aspect-[4/3] bg-gray-50 flex items-center justify-center"
+                  title={`Open ${drawing.name}`}
+                >
+                  {drawing.thumbnail ? (
+                    <img src={drawing.thumbnail} alt="" className="w-full h-full object-contain" draggable={false} />
+                  ) : (
+                    <span className="text-4xl">🎨</span>
+                  )}
+                </button>
+
+                <div className="p-2 flex flex-col gap-1">
+                  {editingId === drawing.id ? (
+                    <form
+                      className="flex gap-1"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        finishRename();
+                      }}
+                    >
+                      <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onBlur={finishRename}
+                        maxLength={40}
+                        className="flex-1 min-w-0 px-2 py-1 rounded-lg border-2 border-blue-200 text-sm"
+                      />
+                      <button type="submit" className="p-1 rounded-lg bg-blue-500 text-white" title="Save name">
+                        <Check size={16} />
+                      </button>
+                    </form>
+                  ) : (
+                    <span className="text-sm font-semibold text-gray-700 truncate" title={drawing.name}>
+                      {drawing.name}
+                    </span>
+                  )}
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => startRename(drawing)}
+                      className="flex-1 p-1 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200 flex justify-center"
+                      title="Rename"
+                    >
+                      <Pencil size={16} />
+                    </button>
+                    <button
+                      onClick={() => onDuplicate(drawing.id)}
+                      className="flex-1 p-1 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200 flex justify-center"
+                      title="Duplicate"
+                    >
+                      <Copy size={16} />
+                    </button>
+                    <button
+                      onClick={() => onDelete(drawing.id)}
+                      className="flex-1 p-1 rounded-lg bg-red-100 text-red-500 hover:bg-red-200 flex justify-center"
+                      title="Delete"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
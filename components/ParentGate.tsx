@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { ShieldCheck, X } from 'lucide-react';
+import { createMathChallenge } from '../utils/parental';
+
+interface ParentGateProps {
+  // Grown-up PIN, empty asks a math question instead
+  pin: string;
+  // What the grown-up is agreeing to
+  reason: string;
+  onUnlock: () => void;
+  onClose: () => void;
+}
+
+export const ParentGate: React.FC<ParentGateProps> = ({ pin, reason, onUnlock, onClose }) => {
+  const [challenge, setChallenge] = useState(createMathChallenge);
+  const [answer, setAnswer] = useState('');
+  const [isWrong, setIsWrong] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const isCorrect = pin ? answer === pin : Number(answer) === challenge.answer;
+    if (isCorrect) {
+      onUnlock();
+      return;
+    }
+    setIsWrong(true);
+    setAnswer('');
+    // A new question each time, so guessing doesn't pay off
+    if (!pin) setChallenge(createMathChallenge());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-blue-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <form
+        className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-200 w-full max-w-sm flex flex-col gap-4 p-4"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="flex items-center gap-2 text-2xl font-black text-blue-900">
+            <ShieldCheck size={24} />
+            Grown-ups Only
+          </h2>
+          <button type="button" onClick={onClose} className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">{reason}</p>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-gray-500">
+            {pin ? 'Enter the grown-up PIN' : `What is ${challenge.question}?`}
+          </span>
+          <input
+            type={pin ? 'password' : 'text'}
+            inputMode="numeric"
+            autoComplete="off"
+            autoFocus
+            value={answer}
+            onChange={(e) => {
+              setAnswer(e.target.value.replace(/\D/g, ''));
+              setIsWrong(false);
+            }}
+            maxLength={pin ? 4 : 3}
+            className="px-3 py-2 rounded-xl border-2 border-gray-200 text-2xl font-bold tracking-widest text-center focus:border-blue-400 outline-none"
+          />
+        </label>
+
+        {isWrong && <p className="text-sm font-bold text-red-500">That's not right, try again.</p>}
+
+        <button
+          type="submit"
+          disabled={!answer}
+          className="px-4 py-3 rounded-2xl bg-blue-500 text-white font-bold shadow-lg hover:bg-blue-600 disabled:opacity-50"
+        >
+          OK
+        </button>
+      </form>
+    </div>
+  );
+};
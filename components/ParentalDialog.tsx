@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { ToolType } from '../types';
+import { COLORS } from './ColorPicker';
+import { TOOLS } from './Toolbar';
+import {
+  DEFAULT_PARENTAL_SETTINGS,
+  ParentalSettings,
+  RestrictedAction,
+  RestrictionMode,
+  SESSION_LIMITS,
+  isValidPin,
+} from '../utils/parental';
+
+interface ParentalDialogProps {
+  parentalSettings: ParentalSettings;
+  onSave: (settings: ParentalSettings) => void;
+  onClose: () => void;
+}
+
+const ACTIONS: { action: RestrictedAction; label: string }[] = [
+  { action: 'clear', label: 'Clear canvas' },
+  { action: 'magicImport', label: 'Magic Import and Trace Photo' },
+  { action: 'download', label: 'Save Art, Save Project and GIFs' },
+];
+
+const MODES: { mode: RestrictionMode; label: string }[] = [
+  { mode: 'allow', label: 'Allow' },
+  { mode: 'lock', label: 'Ask me' },
+  { mode: 'hide', label: 'Hide' },
+];
+
+export const ParentalDialog: React.FC<ParentalDialogProps> = ({ parentalSettings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ParentalSettings>(parentalSettings);
+  const update = (changes: Partial<ParentalSettings>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const toggleTool = (tool: ToolType) => {
+    const tools = draft.tools.includes(tool) ? draft.tools.filter((t) => t !== tool) : [...draft.tools, tool];
+    // Keep at least one tool, or there's nothing left to draw with
+    if (tools.length > 0) update({ tools });
+  };
+
+  const toggleColor = (color: string) => {
+    // An empty list means every color, start from all of them when restricting
+    const current = draft.colors.length > 0 ? draft.colors : COLORS;
+    const colors = current.includes(color) ? current.filter((c) => c !== color) : [...current, color];
+    if (colors.length === 0) return;
+    update({ colors: colors.length === COLORS.length ? [] : colors });
+  };
+
+  const isPinInvalid = draft.pin !== '' && !isValidPin(draft.pin);
+
+  const optionClass = (isActive: boolean) =>
+    `px-3 py-2 rounded-xl text-sm font-semibold transition-colors ${
+      isActive ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-blue-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <form
+        className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-200 w-full max-w-lg max-h-full overflow-y-auto flex flex-col gap-4 p-4"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!isPinInvalid) onSave(draft);
+        }}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-black text-blue-900">Grown-up Settings</h2>
+          <button type="button" onClick={onClose} className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-gray-500">PIN</span>
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            maxLength={4}
+            value={draft.pin}
+            onChange={(e) => update({ pin: e.target.value.replace(/\D/g, '') })}
+            placeholder="Leave empty to answer a math question instead"
+            className="px-3 py-2 rounded-xl border-2 border-gray-200 text-sm focus:border-blue-400 outline-none"
+          />
+          {isPinInvalid && <span className="text-xs font-bold text-red-500">The PIN needs 4 digits.</span>}
+        </label>
+
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-bold text-gray-500">Buttons</span>
+          {ACTIONS.map(({ action, label }) => (
+            <div key={action} className="flex items-center justify-between gap-2">
+              <span className="text-sm text-gray-700">{label}</span>
+              <div className="flex gap-1">
+                {MODES.map(({ mode, label: modeLabel }) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => update({ restrictions: { ...draft.restrictions, [action]: mode } })}
+                    className={optionClass(draft.restrictions[action] === mode)}
+                    aria-pressed={draft.restrictions[action] === mode}
+                  >
+                    {modeLabel}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={draft.approvePhotoUploads}
+            onChange={(e) => update({ approvePhotoUploads: e.target.checked })}
+            className="w-4 h-4"
+          />
+          Ask me before a photo is sent to the Magic Import service
+        </label>
+
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-gray-500">Drawing time</span>
+          <div className="flex flex-wrap gap-1">
+            {SESSION_LIMITS.map((minutes) => (
+              <button
+                key={minutes}
+                type="button"
+                onClick={() => update({ sessionMinutes: minutes })}
+                className={optionClass(draft.sessionMinutes === minutes)}
+                aria-pressed={draft.sessionMinutes === minutes}
+              >
+                {minutes === 0 ? 'No limit' : `${minutes} min`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-gray-500">Tools</span>
+          <div className="flex flex-wrap gap-1">
+            {TOOLS.map((tool) => (
+              <button
+                key={tool.type}
+                type="button"
+                onClick={() => toggleTool(tool.type)}
+                className={optionClass(draft.tools.includes(tool.type))}
+                aria-pressed={draft.tools.includes(tool.type)}
+              >
+                {tool.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-gray-500">Colors</span>
+          <div className="flex flex-wrap gap-2">
+            {COLORS.map((color) => {
+              const isAllowed = draft.colors.length === 0 || draft.colors.includes(color);
+              return (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => toggleColor(color)}
+                  className={`w-8 h-8 rounded-full border-2 flex items-center justify-center ${
+                    isAllowed ? 'border-gray-800' : 'border-gray-200 opacity-30'
+                  }`}
+                  style={{ backgroundColor: color }}
+                  aria-pressed={isAllowed}
+                  aria-label={`Allow color ${color}`}
+                >
+                  {isAllowed && <Check size={16} className={color === '#ffffff' ? 'text-black' : 'text-white'} />}
+                </button>
+              );
+            })}
+          </div>
+          <span className="text-xs text-gray-500">The custom color picker is only offered when every color is allowed.</span>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setDraft(DEFAULT_PARENTAL_SETTINGS)}
+            className="flex-1 px-4 py-3 rounded-2xl bg-gray-100 text-gray-600 font-bold hover:bg-gray-200"
+          >
+            Reset
+          </button>
+          <button
+            type="submit"
+            disabled={isPinInvalid}
+            className="flex-1 px-4 py-3 rounded-2xl bg-blue-500 text-white font-bold shadow-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
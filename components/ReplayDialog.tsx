@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Film, Pause, Play, RotateCcw, X } from 'lucide-react';
+import { DrawingDocument } from '../types';
+import { compositeLayers } from '../utils/renderer';
+import { REPLAY_SPEEDS, Replay, createReplay, createReplayTarget } from '../utils/replay';
+
+interface ReplayDialogProps {
+  doc: DrawingDocument;
+  isExporting: boolean;
+  // Share of the GIF recorded so far, from 0 to 1
+  exportProgress: number;
+  // Left out when a grown-up hid saving
+  onExportGif?: () => void;
+  onClose: () => void;
+}
+
+// Longest side of the replay canvas in pixels, the dialog shows it scaled down
+const REPLAY_SIZE = 960;
+
+export const ReplayDialog: React.FC<ReplayDialogProps> = ({ doc, isExporting, exportProgress, onExportGif, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const replayRef = useRef<{ replay: Replay; paint: HTMLCanvasElement; lineArt: HTMLCanvasElement } | null>(null);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(REPLAY_SPEEDS[0]);
+  const [progress, setProgress] = useState(0);
+
+  const show = () => {
+    const current = replayRef.current;
+    const canvas = canvasRef.current;
+    if (!current || !canvas) return;
+    compositeLayers(current.paint, current.lineArt, canvas);
+    setProgress(current.replay.length ? current.replay.position / current.replay.length : 1);
+  };
+
+  // Offscreen layers for the replay, the document doesn't change while the dialog is open
+  useEffect(() => {
+    let cancelled = false;
+    const ratio = REPLAY_SIZE / Math.max(doc.width, doc.height);
+    createReplayTarget(doc, Math.round(doc.width * ratio), Math.round(doc.height * ratio))
+      .then((target) => {
+        if (cancelled) return;
+        const replay = createReplay(target, doc);
+        replay.reset();
+        replayRef.current = { replay, paint: target.paintCtx.canvas, lineArt: target.lineArtCtx.canvas };
+        show();
+      })
+      .catch((e) => console.error('Failed to start the replay', e));
+    return () => {
+      cancelled = true;
+      replayRef.current = null;
+    };
+  }, [doc]);
+
+  // One animation frame draws `speed` steps
+  useEffect(() => {
+    if (!isPlaying || isExporting) return;
+    let frame = 0;
+    const tick = () => {
+      const current = replayRef.current;
+      if (current) {
+        let playing = true;
+        for (let i = 0; i < speed && playing; i++) playing = current.replay.step();
+        show();
+        if (!playing) {
+          setIsPlaying(false);
+          return;
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, isExporting, speed]);
+
+  const handlePlay = () => {
+    const current = replayRef.current;
+    // Start over once the drawing is complete
+    if (current && current.replay.position >= current.replay.length) {
+      current.replay.reset();
+      show();
+    }
+    setIsPlaying(true);
+  };
+
+  const handleRestart = () => {
+    replayRef.current?.replay.reset();
+    show();
+    setIsPlaying(true);
+  };
+
+  const optionClass = (isActive: boolean) =>
+    `px-3 py-2 rounded-xl text-sm font-semibold transition-colors ${
+      isActive ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-blue-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-200 w-full max-w-3xl max-h-full flex flex-col gap-4 p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-black text-blue-900">Watch It Again</h2>
+          <button onClick={onClose} className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex items-center justify-center bg-gray-50 rounded-2xl p-2">
+          <canvas ref={canvasRef} className="max-w-full max-h-[55vh] rounded-xl shadow" />
+        </div>
+
+        <div className="h-3 rounded-full bg-gray-100 overflow-hidden">
+          <div className="h-full bg-blue-400 transition-[width]" style={{ width: `${progress * 100}%` }} />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={isPlaying ? () => setIsPlaying(false) : handlePlay}
+            disabled={isExporting}
+            className="p-3 rounded-xl bg-blue-500 text-white shadow hover:bg-blue-600 disabled:opacity-50"
+            title={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? <Pause size={20} /> : <Play size={20} />}
+          </button>
+          <button
+            onClick={handleRestart}
+            disabled={isExporting}
+            className="p-3 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+            title="Start Over"
+          >
+            <RotateCcw size={20} />
+          </button>
+
+          <div className="flex gap-1">
+            {REPLAY_SPEEDS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setSpeed(option)}
+                className={optionClass(speed === option)}
+                aria-pressed={speed === option}
+              >
+                {option}x
+              </button>
+            ))}
+          </div>
+
+          {onExportGif && (
+          <button
+            onClick={onExportGif}
+            disabled={isExporting}
+            className="ml-auto flex items-center gap-2 px-4 py-3 rounded-2xl bg-green-500 text-white font-bold shadow-lg hover:bg-green-600 disabled:opacity-70"
+          >
+            <Film size={20} />
+            {isExporting ? `Making GIF... ${Math.round(exportProgress * 100)}%` : 'Save as GIF'}
+          </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { DEFAULT_PROVIDER_SETTINGS, PROVIDERS, ProviderId, ProviderSettings } from '../services/providers';
+
+interface SettingsDialogProps {
+  providerSettings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+export const SettingsDialog: React.FC<SettingsDialogProps> = ({ providerSettings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(providerSettings);
+  const update = (changes: Partial<ProviderSettings>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const inputClass = 'px-3 py-2 rounded-xl border-2 border-gray-200 text-sm focus:border-blue-400 outline-none';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-blue-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <form
+        className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-200 w-full max-w-md flex flex-col gap-4 p-4"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSave(draft);
+        }}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-black text-blue-900">Magic Import Settings</h2>
+          <button type="button" onClick={onClose} className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-gray-500">Service</span>
+          <select
+            value={draft.provider}
+            onChange={(e) => update({ provider: e.target.value as ProviderId })}
+            className={inputClass}
+          >
+            {(Object.keys(PROVIDERS) as ProviderId[]).map((id) => (
+              <option key={id} value={id}>{PROVIDERS[id].label}</option>
+            ))}
+          </select>
+        </label>
+
+        {draft.provider !== 'mock' && (
+          <>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-bold text-gray-500">Model</span>
+              <input
+                value={draft.model}
+                onChange={(e) => update({ model: e.target.value })}
+                placeholder={PROVIDERS[draft.provider].defaultModel}
+                className={inputClass}
+              />
+            </label>
+
+            {draft.provider === 'openai' && (
+              <label className="flex flex-col gap-1">
+                <span className="text-xs font-bold text-gray-500">Server address</span>
+                <input
+                  type="url"
+                  value={draft.endpoint}
+                  onChange={(e) => update({ endpoint: e.target.value })}
+                  placeholder={DEFAULT_PROVIDER_SETTINGS.endpoint}
+                  className={inputClass}
+                />
+              </label>
+            )}
+
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-bold text-gray-500">API key</span>
+              <input
+                type="password"
+                value={draft.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                placeholder="Leave empty to use the built-in key"
+                autoComplete="off"
+                className={inputClass}
+              />
+            </label>
+          </>
+        )}
+
+        <p className="text-xs text-gray-500">
+          If the service can't be reached, photos are traced on this device instead.
+        </p>
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setDraft(DEFAULT_PROVIDER_SETTINGS)}
+            className="flex-1 px-4 py-3 rounded-2xl bg-gray-100 text-gray-600 font-bold hover:bg-gray-200"
+          >
+            Reset
+          </button>
+          <button
+            type="submit"
+            className="flex-1 px-4 py-3 rounded-2xl bg-blue-500 text-white font-bold shadow-lg hover:bg-blue-600"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { STICKERS, getStickerSrc } from '../utils/stickers';
+
+interface StickerPickerProps {
+  selectedSticker: string;
+  color: string;
+  onSelectSticker: (id: string) => void;
+}
+
+export const StickerPicker: React.FC<StickerPickerProps> = ({ selectedSticker, color, onSelectSticker }) => {
+  return (
+    <div className="flex flex-wrap gap-2 p-3 bg-white rounded-2xl shadow-lg border-2 border-pink-100 justify-center max-w-md mx-auto">
+      {STICKERS.map((sticker) => (
+        <button
+          key={sticker.id}
+          onClick={() => onSelectSticker(sticker.id)}
+          className={`w-10 h-10 rounded-xl border-2 p-1 transition-transform hover:scale-110 ${
+            selectedSticker === sticker.id ? 'border-gray-800 scale-110 shadow-md bg-pink-50' : 'border-transparent'
+          }`}
+          title={sticker.label}
+          aria-label={`Select sticker ${sticker.label}`}
+        >
+          {/* Previews are tinted with the selected color */}
+          <img src={getStickerSrc(sticker.id, color) ?? undefined} alt="" className="w-full h-full" draggable={false} />
+        </button>
+      ))}
+    </div>
+  );
+};
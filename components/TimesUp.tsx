@@ -0,0 +1,29 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+
+interface TimesUpProps {
+  onMoreTime: () => void;
+}
+
+/**
+ * Shown over everything once the drawing time a grown-up set has run out.
+ * The drawing is already saved, it'll be waiting next time.
+ */
+export const TimesUp: React.FC<TimesUpProps> = ({ onMoreTime }) => (
+  <div className="fixed inset-0 z-[55] bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100 flex items-center justify-center p-4">
+    <div className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-200 w-full max-w-md flex flex-col items-center gap-4 p-8 text-center">
+      <div className="text-6xl">🌙</div>
+      <h2 className="text-3xl font-black text-blue-900">Time's Up!</h2>
+      <p className="text-lg text-gray-600">
+        What a great artist you are! Your drawing is saved and will be waiting for you next time.
+      </p>
+      <button
+        onClick={onMoreTime}
+        className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-gray-100 text-gray-600 text-sm font-bold hover:bg-gray-200"
+      >
+        <Clock size={16} />
+        Grown-ups: more time
+      </button>
+    </div>
+  </div>
+);
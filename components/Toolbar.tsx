@@ -1,36 +1,141 @@
 import React from 'react';
-import { Pencil, Brush, Eraser, PaintBucket, Upload, Download, Trash2, Undo } from 'lucide-react';
-import { ToolType } from '../types';
+import {
+  Pencil, Brush, Eraser, PaintBucket, Upload, Download, Trash2, Undo, Redo, Save, FolderOpen, PenTool, Hand,
+  Shapes, Slash, Square, Circle, Star, Heart, Lock, LockOpen, Sticker,
+  Ban, FlipHorizontal2, FlipVertical2, Grid2x2, Flower, Eye, EyeOff, ScanLine, Film, Hash, Puzzle, Users, Pipette
+} from 'lucide-react';
+import { BrushPreset, ToolType, ShapeType, Symmetry, SymmetryMode } from '../types';
+import { BRUSH_PRESETS } from '../utils/brushes';
+import { RestrictedAction, RestrictionMode } from '../utils/parental';
+import { MAX_RADIAL_SEGMENTS, MIN_RADIAL_SEGMENTS } from '../utils/symmetry';
+
+export const TOOLS = [
+  { type: ToolType.PENCIL, icon: Pencil, label: 'Pencil' },
+  { type: ToolType.BRUSH, icon: Brush, label: 'Brush' },
+  { type: ToolType.BUCKET, icon: PaintBucket, label: 'Fill' },
+  { type: ToolType.ERASER, icon: Eraser, label: 'Eraser' },
+  { type: ToolType.SHAPE, icon: Shapes, label: 'Shapes' },
+  { type: ToolType.STAMP, icon: Sticker, label: 'Stickers' },
+  { type: ToolType.EYEDROPPER, icon: Pipette, label: 'Pick' },
+];
 
 interface ToolbarProps {
   currentTool: ToolType;
   setTool: (tool: ToolType) => void;
+  // Tools a grown-up made available
+  availableTools: ToolType[];
+  // Buttons a grown-up locked or hid
+  restrictions: Record<RestrictedAction, RestrictionMode>;
   brushSize: number;
   setBrushSize: (size: number) => void;
+  brushPreset: BrushPreset;
+  setBrushPreset: (preset: BrushPreset) => void;
+  fillTolerance: number;
+  setFillTolerance: (tolerance: number) => void;
+  gapClosing: number;
+  setGapClosing: (gap: number) => void;
+  shape: ShapeType;
+  setShape: (shape: ShapeType) => void;
+  shapeFilled: boolean;
+  setShapeFilled: (filled: boolean) => void;
+  lockAspect: boolean;
+  setLockAspect: (lock: boolean) => void;
+  symmetry: Symmetry;
+  setSymmetry: (symmetry: Symmetry) => void;
+  showSymmetryGuides: boolean;
+  setShowSymmetryGuides: (show: boolean) => void;
+  penOnly: boolean;
+  setPenOnly: (penOnly: boolean) => void;
+  palmRejection: boolean;
+  setPalmRejection: (palmRejection: boolean) => void;
   onClear: () => void;
   onUpload: () => void;
+  // Turn a photo into line art on the device, works offline
+  onTrace: () => void;
+  onReplay: () => void;
+  // Dot-to-dot and tracing
+  onActivities: () => void;
+  // Number the regions of the coloring page, only offered once there is one
+  onColorByNumber: () => void;
+  isColorByNumber: boolean;
+  canColorByNumber: boolean;
+  // Share the drawing with other tablets on the network
+  onCollab: () => void;
+  isCollab: boolean;
   onDownload: () => void;
+  onSaveProject: () => void;
+  onOpenProject: () => void;
   onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   isGenerating: boolean;
 }
 
 export const Toolbar: React.FC<ToolbarProps> = ({
   currentTool,
   setTool,
+  availableTools,
+  restrictions,
   brushSize,
   setBrushSize,
+  brushPreset,
+  setBrushPreset,
+  fillTolerance,
+  setFillTolerance,
+  gapClosing,
+  setGapClosing,
+  shape,
+  setShape,
+  shapeFilled,
+  setShapeFilled,
+  lockAspect,
+  setLockAspect,
+  symmetry,
+  setSymmetry,
+  showSymmetryGuides,
+  setShowSymmetryGuides,
+  penOnly,
+  setPenOnly,
+  palmRejection,
+  setPalmRejection,
   onClear,
   onUpload,
+  onTrace,
+  onReplay,
+  onActivities,
+  onColorByNumber,
+  isColorByNumber,
+  canColorByNumber,
+  onCollab,
+  isCollab,
   onDownload,
+  onSaveProject,
+  onOpenProject,
   onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
   isGenerating
 }) => {
-  
-  const tools = [
-    { type: ToolType.PENCIL, icon: Pencil, label: 'Pencil' },
-    { type: ToolType.BRUSH, icon: Brush, label: 'Brush' },
-    { type: ToolType.BUCKET, icon: PaintBucket, label: 'Fill' },
-    { type: ToolType.ERASER, icon: Eraser, label: 'Eraser' },
+  const tools = TOOLS.filter((tool) => availableTools.includes(tool.type));
+  // Locked buttons still work, after a grown-up says OK
+  const lockHint = (action: RestrictedAction) => restrictions[action] === 'lock' ? ' (ask a grown-up)' : '';
+
+  const shapes = [
+    { type: ShapeType.LINE, icon: Slash, label: 'Line' },
+    { type: ShapeType.RECTANGLE, icon: Square, label: 'Rectangle' },
+    { type: ShapeType.CIRCLE, icon: Circle, label: 'Circle' },
+    { type: ShapeType.STAR, icon: Star, label: 'Star' },
+    { type: ShapeType.HEART, icon: Heart, label: 'Heart' },
+  ];
+
+  const symmetryModes = [
+    { mode: SymmetryMode.NONE, icon: Ban, label: 'No mirror' },
+    { mode: SymmetryMode.HORIZONTAL, icon: FlipHorizontal2, label: 'Mirror left and right' },
+    { mode: SymmetryMode.VERTICAL, icon: FlipVertical2, label: 'Mirror top and bottom' },
+    { mode: SymmetryMode.QUAD, icon: Grid2x2, label: 'Mirror four ways' },
+    { mode: SymmetryMode.RADIAL, icon: Flower, label: 'Kaleidoscope' },
   ];
 
   return (
@@ -58,19 +163,181 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         })}
       </div>
 
+      {currentTool === ToolType.BRUSH && (
+        <>
+          <div className="w-px h-12 bg-gray-200 hidden md:block mx-2"></div>
+
+          {/* Brush Presets */}
+          <div className="grid grid-cols-3 gap-1">
+            {(Object.keys(BRUSH_PRESETS) as BrushPreset[]).map((preset) => {
+                const option = BRUSH_PRESETS[preset];
+                const isActive = brushPreset === preset;
+                return (
+                    <button
+                        key={preset}
+                        onClick={() => setBrushPreset(preset)}
+                        className={`px-2 py-1 rounded-lg transition-colors text-xs font-semibold ${isActive ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                        title={option.label}
+                        aria-pressed={isActive}
+                    >
+                        <span aria-hidden="true">{option.emoji}</span> {option.label}
+                    </button>
+                );
+            })}
+          </div>
+        </>
+      )}
+
+      {currentTool === ToolType.SHAPE && (
+        <>
+          <div className="w-px h-12 bg-gray-200 hidden md:block mx-2"></div>
+
+          {/* Shape Options */}
+          <div className="flex flex-col gap-1">
+            <div className="flex gap-1">
+              {shapes.map((option) => {
+                  const Icon = option.icon;
+                  const isActive = shape === option.type;
+                  return (
+                      <button
+                          key={option.type}
+                          onClick={() => setShape(option.type)}
+                          className={`p-2 rounded-lg transition-colors ${isActive ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                          title={option.label}
+                          aria-pressed={isActive}
+                      >
+                          <Icon size={16} fill={shapeFilled && option.type !== ShapeType.LINE ? 'currentColor' : 'none'} />
+                      </button>
+                  );
+              })}
+            </div>
+            <div className="flex gap-1">
+              <button
+                  onClick={() => setShapeFilled(!shapeFilled)}
+                  className="flex-1 px-2 py-1 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200 text-xs font-semibold"
+                  title="Outline or filled shapes"
+              >
+                  {shapeFilled ? 'Filled' : 'Outline'}
+              </button>
+              <button
+                  onClick={() => setLockAspect(!lockAspect)}
+                  className={`p-1 rounded-lg transition-colors ${lockAspect ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                  title="Lock aspect (or hold Shift)"
+                  aria-pressed={lockAspect}
+              >
+                  {lockAspect ? <Lock size={16} /> : <LockOpen size={16} />}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="w-px h-12 bg-gray-200 hidden md:block mx-2"></div>
+
+      {currentTool === ToolType.BUCKET ? (
+        /* Fill Sliders */
+        <div className="flex flex-col gap-2 w-full md:w-32 px-2">
+          <div className="flex flex-col">
+            <label className="text-xs font-bold text-gray-500 mb-1">Close gaps: {gapClosing}px</label>
+            <input
+                type="range"
+                min="0"
+                max="10"
+                value={gapClosing}
+                onChange={(e) => setGapClosing(Number(e.target.value))}
+                className="w-full accent-blue-500 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+          <div className="flex flex-col">
+            <label className="text-xs font-bold text-gray-500 mb-1">Tolerance: {fillTolerance}%</label>
+            <input
+                type="range"
+                min="0"
+                max="60"
+                value={fillTolerance}
+                onChange={(e) => setFillTolerance(Number(e.target.value))}
+                className="w-full accent-blue-500 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+        </div>
+      ) : (
+        /* Size Slider */
+        <div className="flex flex-col w-full md:w-32 px-2">
+          <label className="text-xs font-bold text-gray-500 mb-1">Size: {brushSize}px</label>
+          <input
+              type="range"
+              min="1"
+              max="100"
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="w-full accent-blue-500 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+
       <div className="w-px h-12 bg-gray-200 hidden md:block mx-2"></div>
 
-      {/* Size Slider */}
-      <div className="flex flex-col w-full md:w-32 px-2">
-        <label className="text-xs font-bold text-gray-500 mb-1">Size: {brushSize}px</label>
-        <input
-            type="range"
-            min="1"
-            max="100"
-            value={brushSize}
-            onChange={(e) => setBrushSize(Number(e.target.value))}
-            className="w-full accent-blue-500 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-        />
+      {/* Symmetry */}
+      <div className="flex flex-col gap-1">
+        <div className="flex gap-1">
+          {symmetryModes.map((option) => {
+              const Icon = option.icon;
+              const isActive = symmetry.mode === option.mode;
+              return (
+                  <button
+                      key={option.mode}
+                      onClick={() => setSymmetry({ ...symmetry, mode: option.mode })}
+                      className={`p-2 rounded-lg transition-colors ${isActive ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+                      title={option.label}
+                      aria-pressed={isActive}
+                  >
+                      <Icon size={16} />
+                  </button>
+              );
+          })}
+          <button
+              onClick={() => setShowSymmetryGuides(!showSymmetryGuides)}
+              className="p-2 rounded-lg bg-gray-100 text-gray-500 hover:bg-gray-200 transition-colors"
+              title={showSymmetryGuides ? 'Hide mirror guides' : 'Show mirror guides'}
+          >
+              {showSymmetryGuides ? <Eye size={16} /> : <EyeOff size={16} />}
+          </button>
+        </div>
+        {symmetry.mode === SymmetryMode.RADIAL && (
+          <div className="flex flex-col px-1">
+            <label className="text-xs font-bold text-gray-500">Segments: {symmetry.segments}</label>
+            <input
+                type="range"
+                min={MIN_RADIAL_SEGMENTS}
+                max={MAX_RADIAL_SEGMENTS}
+                value={symmetry.segments}
+                onChange={(e) => setSymmetry({ ...symmetry, segments: Number(e.target.value) })}
+                className="w-full accent-purple-500 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="w-px h-12 bg-gray-200 hidden md:block mx-2"></div>
+
+      {/* Input Toggles */}
+      <div className="flex md:flex-col gap-1">
+        <button
+            onClick={() => setPenOnly(!penOnly)}
+            className={`p-2 rounded-lg transition-colors ${penOnly ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+            title="Pen only (ignore fingers)"
+            aria-pressed={penOnly}
+        >
+            <PenTool size={16} />
+        </button>
+        <button
+            onClick={() => setPalmRejection(!palmRejection)}
+            className={`p-2 rounded-lg transition-colors ${palmRejection ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+            title="Palm rejection (ignore resting hands)"
+            aria-pressed={palmRejection}
+        >
+            <Hand size={16} />
+        </button>
       </div>
 
       <div className="w-px h-12 bg-gray-200 hidden md:block mx-2"></div>
@@ -79,21 +346,35 @@ export const Toolbar: React.FC<ToolbarProps> = ({
       <div className="flex gap-2">
          <button 
             onClick={onUndo}
-            className="p-3 bg-indigo-100 text-indigo-600 rounded-xl hover:bg-indigo-200 transition-colors"
-            title="Undo"
+            disabled={!canUndo}
+            className="p-3 bg-indigo-100 text-indigo-600 rounded-xl hover:bg-indigo-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Undo (Ctrl+Z)"
         >
             <Undo size={20} />
         </button>
+         <button 
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="p-3 bg-indigo-100 text-indigo-600 rounded-xl hover:bg-indigo-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Redo (Ctrl+Shift+Z)"
+        >
+            <Redo size={20} />
+        </button>
+        {restrictions.clear !== 'hide' && (
          <button 
             onClick={onClear}
             className="p-3 bg-red-100 text-red-600 rounded-xl hover:bg-red-200 transition-colors"
-            title="Clear Canvas"
+            title={`Clear Canvas${lockHint('clear')}`}
         >
             <Trash2 size={20} />
         </button>
+        )}
+        {restrictions.magicImport !== 'hide' && (
+        <>
         <button 
             onClick={onUpload}
             disabled={isGenerating}
+            title={`Magic Import${lockHint('magicImport')}`}
             className={`flex items-center gap-2 px-4 py-3 rounded-xl font-bold transition-all shadow-md ${
                 isGenerating 
                 ? 'bg-gray-300 text-gray-500 cursor-not-allowed' 
@@ -103,13 +384,76 @@ export const Toolbar: React.FC<ToolbarProps> = ({
             <Upload size={20} />
             {isGenerating ? 'Magic...' : 'Magic Import'}
         </button>
+        <button 
+            onClick={onTrace}
+            disabled={isGenerating}
+            className="p-3 bg-purple-100 text-purple-600 rounded-xl hover:bg-purple-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title={`Trace Photo (works offline)${lockHint('magicImport')}`}
+        >
+            <ScanLine size={20} />
+        </button>
+        </>
+        )}
+        <button 
+            onClick={onActivities}
+            className="p-3 bg-orange-100 text-orange-600 rounded-xl hover:bg-orange-200 transition-colors"
+            title="Dot-to-Dot and Tracing"
+        >
+            <Puzzle size={20} />
+        </button>
+        <button 
+            onClick={onColorByNumber}
+            disabled={!canColorByNumber && !isColorByNumber}
+            className={`p-3 rounded-xl transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                isColorByNumber ? 'bg-teal-500 text-white' : 'bg-teal-100 text-teal-700 hover:bg-teal-200'
+            }`}
+            title={canColorByNumber || isColorByNumber ? 'Color by Number' : 'Color by Number (import a coloring page first)'}
+            aria-pressed={isColorByNumber}
+        >
+            <Hash size={20} />
+        </button>
+        <button 
+            onClick={onReplay}
+            className="p-3 bg-rose-100 text-rose-600 rounded-xl hover:bg-rose-200 transition-colors"
+            title="Replay"
+        >
+            <Film size={20} />
+        </button>
+        <button 
+            onClick={onCollab}
+            className={`p-3 rounded-xl transition-colors ${
+                isCollab ? 'bg-sky-500 text-white' : 'bg-sky-100 text-sky-700 hover:bg-sky-200'
+            }`}
+            title="Draw Together"
+            aria-pressed={isCollab}
+        >
+            <Users size={20} />
+        </button>
+        {restrictions.download !== 'hide' && (
+        <>
         <button 
             onClick={onDownload}
             className="p-3 bg-green-100 text-green-700 rounded-xl hover:bg-green-200 transition-colors"
-            title="Save Art"
+            title={`Save Art${lockHint('download')}`}
         >
             <Download size={20} />
         </button>
+        <button 
+            onClick={onSaveProject}
+            className="p-3 bg-amber-100 text-amber-700 rounded-xl hover:bg-amber-200 transition-colors"
+            title={`Save Project${lockHint('download')}`}
+        >
+            <Save size={20} />
+        </button>
+        </>
+        )}
+        <button 
+            onClick={onOpenProject}
+            className="p-3 bg-sky-100 text-sky-700 rounded-xl hover:bg-sky-200 transition-colors"
+            title="Open Project"
+        >
+            <FolderOpen size={20} />
+        </button>
       </div>
     </div>
   );
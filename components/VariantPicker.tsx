@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+
+interface VariantPickerProps {
+  // Data URLs of the coloring pages to choose from
+  variants: string[];
+  onPick: (variant: string) => void;
+  onClose: () => void;
+}
+
+export const VariantPicker: React.FC<VariantPickerProps> = ({ variants, onPick, onClose }) => {
+  const [selected, setSelected] = useState(0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-blue-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-3xl shadow-2xl border-4 border-yellow-200 w-full max-w-3xl max-h-full flex flex-col gap-4 p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-2xl font-black text-blue-900">Which One Do You Like?</h2>
+          <button onClick={onClose} className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex items-center justify-center bg-gray-50 rounded-2xl p-2">
+          <img src={variants[selected]} alt="Selected coloring page" className="max-w-full max-h-[50vh] object-contain" />
+        </div>
+
+        <div className="flex gap-2 overflow-x-auto">
+          {variants.map((variant, index) => (
+            <button
+              key={index}
+              onClick={() => setSelected(index)}
+              className={`flex-none w-28 h-28 p-1 rounded-2xl border-4 bg-white transition-colors ${
+                selected === index ? 'border-blue-500' : 'border-gray-100 hover:border-blue-200'
+              }`}
+              aria-pressed={selected === index}
+              title={`Page ${index + 1}`}
+            >
+              <img src={variant} alt={`Coloring page ${index + 1}`} className="w-full h-full object-contain" />
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={() => onPick(variants[selected])}
+          className="flex items-center justify-center gap-2 px-4 py-3 rounded-2xl bg-blue-500 text-white font-bold shadow-lg hover:bg-blue-600"
+        >
+          <Check size={20} />
+          Color This One
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,345 @@
+// Relay for drawing together on a home or school network, see services/collab.ts.
+// Plain Node with no dependencies: `npm run relay`, or `node server/relay.mjs`.
+// Rooms live in memory, each keeps the document it started from plus every
+// action drawn since, so artists who join late see the whole picture.
+
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.RELAY_PORT) || 8787;
+// Big enough for a drawing with a few imported coloring pages
+const MAX_MESSAGE_BYTES = 32 * 1024 * 1024;
+const MAX_USERS_PER_ROOM = 30;
+// Empty rooms are kept a while so a dropped tablet can come back
+const EMPTY_ROOM_TTL_MS = 60 * 60 * 1000;
+const PING_INTERVAL_MS = 30 * 1000;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const ROOM_CODE = /^[A-Z0-9]{4,8}$/;
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+// Enum values from types.ts
+const TOOL_TYPES = ['PENCIL', 'BRUSH', 'ERASER', 'BUCKET', 'SHAPE', 'STAMP', 'EYEDROPPER'];
+const SHAPE_TYPES = ['LINE', 'RECTANGLE', 'CIRCLE', 'STAR', 'HEART'];
+const BRUSH_PRESETS = ['ROUND', 'CRAYON', 'MARKER', 'SPRAY', 'RAINBOW', 'GLITTER'];
+const SYMMETRY_MODES = ['NONE', 'HORIZONTAL', 'VERTICAL', 'QUAD', 'RADIAL'];
+
+/** @type {Map<string, { code: string, doc: any, actions: any[], clients: Set<Client>, emptyTimer: NodeJS.Timeout | undefined }>} */
+const rooms = new Map();
+/** @type {Set<Client>} */
+const clients = new Set();
+
+/**
+ * One WebSocket connection. Only the parts of RFC 6455 a browser client uses:
+ * masked text frames, fragmentation, ping/pong and close.
+ */
+class Client {
+  constructor(socket) {
+    this.socket = socket;
+    this.id = randomUUID();
+    this.user = null;
+    this.room = null;
+    this.isAlive = true;
+    this.buffer = Buffer.alloc(0);
+    this.fragments = [];
+
+    socket.on('data', (chunk) => this.receive(chunk));
+    socket.on('close', () => {
+      clients.delete(this);
+      leave(this);
+    });
+    socket.on('error', () => socket.destroy());
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length >= 2) {
+      const first = this.buffer[0];
+      const second = this.buffer[1];
+      const fin = (first & 0x80) !== 0;
+      const opcode = first & 0x0f;
+      const masked = (second & 0x80) !== 0;
+      let length = second & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // Browsers always mask, and nothing here needs messages this big
+      if (!masked || length > MAX_MESSAGE_BYTES) {
+        this.close(1009);
+        return;
+      }
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) {
+        this.close(1000);
+        return;
+      }
+      if (opcode === 0x9) this.write(0xa, payload);
+      else if (opcode === 0xa) this.isAlive = true;
+      else if (opcode === 0x1 || opcode === 0x0) {
+        this.fragments.push(payload);
+        const size = this.fragments.reduce((sum, part) => sum + part.length, 0);
+        if (size > MAX_MESSAGE_BYTES) {
+          this.close(1009);
+          return;
+        }
+        if (fin) {
+          const text = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          handleMessage(this, text);
+        }
+      } else {
+        // Binary frames aren't part of the protocol
+        this.close(1003);
+        return;
+      }
+    }
+  }
+
+  write(opcode, payload) {
+    if (this.socket.destroyed) return;
+    const length = payload.length;
+    let header;
+    if (length < 126) {
+      header = Buffer.from([0x80 | opcode, length]);
+    } else if (length < 65536) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  send(message) {
+    this.write(0x1, Buffer.from(JSON.stringify(message), 'utf8'));
+  }
+
+  close(code) {
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    this.write(0x8, payload);
+    this.socket.end();
+  }
+}
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+const isPoint = (p) => !!p && typeof p === 'object' && isNumber(p.x) && isNumber(p.y);
+const isColor = (value) => typeof value === 'string' && HEX_COLOR.test(value);
+
+/**
+ * Same checks as isValidAction in utils/document.ts. Kept actions go into the
+ * drawing sent to late joiners, and one they can't read keeps them all out.
+ */
+const isValidAction = (action) => {
+  if (!action || typeof action !== 'object') return false;
+  switch (action.type) {
+    case 'stroke':
+      return (
+        TOOL_TYPES.includes(action.tool) &&
+        isColor(action.color) &&
+        isNumber(action.size) &&
+        Array.isArray(action.points) &&
+        action.points.every((p) => isPoint(p) && (p.pressure === undefined || isNumber(p.pressure))) &&
+        (action.brush === undefined || BRUSH_PRESETS.includes(action.brush)) &&
+        (action.seed === undefined || isNumber(action.seed)) &&
+        (action.symmetry === undefined ||
+          (!!action.symmetry &&
+            typeof action.symmetry === 'object' &&
+            SYMMETRY_MODES.includes(action.symmetry.mode) &&
+            isNumber(action.symmetry.segments)))
+      );
+    case 'fill':
+      return (
+        isNumber(action.x) &&
+        isNumber(action.y) &&
+        isColor(action.color) &&
+        (action.tolerance === undefined || isNumber(action.tolerance)) &&
+        (action.gapClosing === undefined || isNumber(action.gapClosing))
+      );
+    case 'shape':
+      return (
+        SHAPE_TYPES.includes(action.shape) &&
+        isColor(action.color) &&
+        isNumber(action.size) &&
+        typeof action.filled === 'boolean' &&
+        isPoint(action.start) &&
+        isPoint(action.end)
+      );
+    case 'stamp':
+      return (
+        typeof action.sticker === 'string' &&
+        isColor(action.color) &&
+        isNumber(action.size) &&
+        isNumber(action.x) &&
+        isNumber(action.y)
+      );
+    case 'import':
+      return (
+        typeof action.src === 'string' &&
+        (action.layer === undefined || action.layer === 'paint' || action.layer === 'lineArt')
+      );
+    case 'clear':
+      return true;
+    default:
+      return false;
+  }
+};
+
+const getUsers = (room) => [...room.clients].map((client) => client.user);
+
+const broadcast = (room, message, except = null) => {
+  room.clients.forEach((client) => {
+    if (client !== except) client.send(message);
+  });
+};
+
+const readUser = (user) => ({
+  name: typeof user?.name === 'string' && user.name.trim() ? user.name.trim().slice(0, 20) : 'Artist',
+  color: typeof user?.color === 'string' && /^#[0-9a-f]{6}$/i.test(user.color) ? user.color : '#3b82f6',
+});
+
+const enter = (client, room) => {
+  if (room.clients.size >= MAX_USERS_PER_ROOM) {
+    client.send({ type: 'error', reason: 'full' });
+    return;
+  }
+  clearTimeout(room.emptyTimer);
+  client.room = room.code;
+  room.clients.add(client);
+  client.send({
+    type: 'welcome',
+    userId: client.id,
+    users: getUsers(room),
+    doc: { ...room.doc, actions: [...room.doc.actions, ...room.actions] },
+  });
+  broadcast(room, { type: 'users', users: getUsers(room) }, client);
+};
+
+const leave = (client) => {
+  const room = client.room ? rooms.get(client.room) : null;
+  if (!room) return;
+  room.clients.delete(client);
+  client.room = null;
+  broadcast(room, { type: 'users', users: getUsers(room) });
+  if (room.clients.size === 0) {
+    room.emptyTimer = setTimeout(() => rooms.delete(room.code), EMPTY_ROOM_TTL_MS);
+  }
+};
+
+const handleMessage = (client, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (!message || typeof message !== 'object') return;
+
+  if (message.type === 'create' || message.type === 'join') {
+    const code = typeof message.room === 'string' ? message.room.toUpperCase() : '';
+    if (client.room || !ROOM_CODE.test(code)) {
+      client.send({ type: 'error', reason: 'invalid' });
+      return;
+    }
+    client.user = { id: client.id, ...readUser(message.user) };
+
+    if (message.type === 'create') {
+      const doc = message.doc;
+      if (rooms.has(code)) {
+        client.send({ type: 'error', reason: 'taken' });
+        return;
+      }
+      if (
+        !doc ||
+        typeof doc.width !== 'number' ||
+        typeof doc.height !== 'number' ||
+        !Array.isArray(doc.actions) ||
+        !doc.actions.every(isValidAction)
+      ) {
+        client.send({ type: 'error', reason: 'invalid' });
+        return;
+      }
+      rooms.set(code, { code, doc, actions: [], clients: new Set(), emptyTimer: undefined });
+    }
+    const room = rooms.get(code);
+    if (!room) {
+      client.send({ type: 'error', reason: 'not-found' });
+      return;
+    }
+    enter(client, room);
+    return;
+  }
+
+  const room = client.room ? rooms.get(client.room) : null;
+  if (message.type !== 'op' || !room || !message.op || typeof message.op.type !== 'string') return;
+
+  // Finished actions are kept for late joiners, strokes in progress and cursors are only passed on
+  if (message.op.type === 'action') {
+    if (!isValidAction(message.op.action)) return;
+    if (message.op.action.type === 'clear') {
+      // Nothing drawn before a clear shows, so there is no need to keep it
+      room.doc = { ...room.doc, actions: [] };
+      room.actions = [];
+    } else {
+      room.actions.push(message.op.action);
+    }
+  }
+  broadcast(room, { type: 'op', from: client.id, op: message.op }, client);
+};
+
+const server = createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end('Little Picasso relay is running.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+  clients.add(new Client(socket));
+});
+
+// Tablets that went to sleep without closing the connection are dropped
+setInterval(() => {
+  clients.forEach((client) => {
+    if (!client.isAlive) {
+      client.socket.destroy();
+      return;
+    }
+    client.isAlive = false;
+    client.write(0x9, Buffer.alloc(0));
+  });
+}, PING_INTERVAL_MS);
+
+server.listen(PORT, () => {
+  console.log(`Little Picasso relay listening on port ${PORT}`);
+  console.log(`In the app, use ws://<this computer's address>:${PORT}`);
+});
@@ -0,0 +1,127 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { randomBytes } from 'node:crypto';
+import { request } from 'node:http';
+import { Socket } from 'node:net';
+import { fileURLToPath } from 'node:url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+const RELAY = fileURLToPath(new URL('./relay.mjs', import.meta.url));
+const PORT = 20000 + Math.floor(Math.random() * 20000);
+
+interface Connection {
+  send: (text: string) => void;
+  // Next message from the relay, parsed
+  next: () => Promise<unknown>;
+  close: () => void;
+}
+
+/**
+ * Just enough of a WebSocket client to talk to the relay: masked text frames out,
+ * unmasked text frames in.
+ */
+const connect = (): Promise<Connection> =>
+  new Promise((resolve, reject) => {
+    const req = request({
+      port: PORT,
+      headers: { Connection: 'Upgrade', Upgrade: 'websocket', 'Sec-WebSocket-Key': randomBytes(16).toString('base64') },
+    });
+    req.on('error', reject);
+    req.on('upgrade', (_res, socket: Socket) => {
+      let buffer = Buffer.alloc(0);
+      const messages: unknown[] = [];
+      const waiting: ((message: unknown) => void)[] = [];
+      socket.on('data', (chunk) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        while (buffer.length >= 2) {
+          let length = buffer[1] & 0x7f;
+          let offset = 2;
+          if (length === 126) {
+            length = buffer.readUInt16BE(2);
+            offset = 4;
+          } else if (length === 127) {
+            length = Number(buffer.readBigUInt64BE(2));
+            offset = 10;
+          }
+          if (buffer.length < offset + length) return;
+          const opcode = buffer[0] & 0x0f;
+          const payload = buffer.subarray(offset, offset + length);
+          buffer = buffer.subarray(offset + length);
+          if (opcode !== 0x1) continue;
+          const message = JSON.parse(payload.toString('utf8'));
+          const waiter = waiting.shift();
+          if (waiter) waiter(message);
+          else messages.push(message);
+        }
+      });
+      resolve({
+        send: (text) => {
+          const payload = Buffer.from(text, 'utf8');
+          const mask = randomBytes(4);
+          const header =
+            payload.length < 126
+              ? Buffer.from([0x81, 0x80 | payload.length])
+              : Buffer.from([0x81, 0x80 | 126, payload.length >> 8, payload.length & 255]);
+          const masked = payload.map((byte, i) => byte ^ mask[i % 4]);
+          socket.write(Buffer.concat([header, mask, masked]));
+        },
+        next: () =>
+          messages.length > 0 ? Promise.resolve(messages.shift()) : new Promise((resolveMessage) => waiting.push(resolveMessage)),
+        close: () => socket.destroy(),
+      });
+    });
+    req.end();
+  });
+
+const createRoom = (connection: Connection, room: string) =>
+  connection.send(
+    JSON.stringify({
+      type: 'create',
+      room,
+      user: { name: 'Ada', color: '#ef4444' },
+      doc: { format: 'little-picasso', version: 1, width: 800, height: 600, actions: [] },
+    })
+  );
+
+let relay: ChildProcess;
+
+beforeAll(async () => {
+  relay = spawn(process.execPath, [RELAY], { env: { ...process.env, RELAY_PORT: String(PORT) } });
+  await new Promise<void>((resolve, reject) => {
+    relay.stdout?.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) resolve();
+    });
+    relay.on('exit', () => reject(new Error('The relay exited')));
+  });
+});
+
+afterAll(() => {
+  relay.kill();
+});
+
+describe('relay', () => {
+  it('ignores messages that are not objects', async () => {
+    const connection = await connect();
+    ['null', '42', '[]', '"hello"'].forEach((text) => connection.send(text));
+
+    createRoom(connection, 'ABCD');
+    expect(await connection.next()).toMatchObject({ type: 'welcome' });
+    expect(relay.exitCode).toBeNull();
+    connection.close();
+  });
+
+  it('keeps only valid actions for artists who join late', async () => {
+    const host = await connect();
+    createRoom(host, 'WXYZ');
+    await host.next();
+    const fill = { type: 'fill', x: 10, y: 10, color: '#22c55e' };
+    host.send(JSON.stringify({ type: 'op', op: { type: 'action', action: { type: 'fill', x: 10 } } }));
+    host.send(JSON.stringify({ type: 'op', op: { type: 'action', action: { ...fill, color: 'ff0000' } } }));
+    host.send(JSON.stringify({ type: 'op', op: { type: 'action', action: fill } }));
+
+    const guest = await connect();
+    guest.send(JSON.stringify({ type: 'join', room: 'WXYZ', user: { name: 'Bo', color: '#3b82f6' } }));
+    expect(await guest.next()).toMatchObject({ type: 'welcome', doc: { actions: [fill] } });
+    host.close();
+    guest.close();
+  });
+});
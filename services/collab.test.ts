@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { ToolType } from '../types';
+import { isValidOp } from './collab';
+
+const stroke = { type: 'stroke', tool: ToolType.BRUSH, color: '#22c55e', size: 12, points: [{ x: 1, y: 1 }] };
+
+describe('isValidOp', () => {
+  it('accepts every kind of op', () => {
+    expect(isValidOp({ type: 'stroke', strokeId: 'a1', stroke })).toBe(true);
+    expect(isValidOp({ type: 'points', strokeId: 'a1', points: [{ x: 2, y: 3 }, { x: 4, y: 5, pressure: 0.7 }] })).toBe(true);
+    expect(isValidOp({ type: 'cancel', strokeId: 'a1' })).toBe(true);
+    expect(isValidOp({ type: 'action', action: stroke, strokeId: 'a1' })).toBe(true);
+    expect(isValidOp({ type: 'action', action: { type: 'fill', x: 5, y: 5, color: '#3b82f6' } })).toBe(true);
+    expect(isValidOp({ type: 'cursor', point: { x: 10, y: 20 } })).toBe(true);
+    expect(isValidOp({ type: 'cursor', point: null })).toBe(true);
+  });
+
+  it('rejects colors that are not hex colors', () => {
+    expect(isValidOp({ type: 'stroke', strokeId: 'a1', stroke: { ...stroke, color: 'expression(alert(1))' } })).toBe(false);
+    expect(isValidOp({ type: 'action', action: { type: 'fill', x: 5, y: 5, color: 'blue' } })).toBe(false);
+    expect(
+      isValidOp({ type: 'action', action: { type: 'stamp', sticker: 'star', color: null, size: 40, x: 1, y: 1 } })
+    ).toBe(false);
+  });
+
+  it('rejects malformed ops', () => {
+    expect(isValidOp(null)).toBe(false);
+    expect(isValidOp('cursor')).toBe(false);
+    expect(isValidOp({ type: 'shout' })).toBe(false);
+    expect(isValidOp({ type: 'stroke', stroke })).toBe(false);
+    expect(isValidOp({ type: 'stroke', strokeId: 'a1', stroke: { type: 'fill', x: 5, y: 5, color: '#000000' } })).toBe(false);
+    expect(isValidOp({ type: 'points', strokeId: 'a1', points: [{ x: '2', y: 3 }] })).toBe(false);
+    expect(isValidOp({ type: 'points', strokeId: 'a1', points: [{ x: 2, y: 3, pressure: NaN }] })).toBe(false);
+    expect(isValidOp({ type: 'cancel', strokeId: 7 })).toBe(false);
+    expect(isValidOp({ type: 'action', action: { type: 'clear' }, strokeId: 7 })).toBe(false);
+    expect(isValidOp({ type: 'cursor' })).toBe(false);
+  });
+});
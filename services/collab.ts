@@ -0,0 +1,242 @@
+import { DrawingAction, DrawingDocument, Point, StrokeAction, StrokePoint } from '../types';
+import { isHexColor } from '../utils/color';
+import { isRecord, isValidAction, parseDocument, serializeDocument } from '../utils/document';
+
+// Port of the relay in server/relay.mjs
+export const RELAY_PORT = 8787;
+// Give up on the relay if it doesn't answer in time
+const CONNECT_TIMEOUT_MS = 10 * 1000;
+
+// No 0/O or 1/I, so codes can be read out across a classroom
+const ROOM_CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 4;
+
+// Each artist's cursor gets one of these
+export const ARTIST_COLORS = ['#ef4444', '#f97316', '#22c55e', '#06b6d4', '#3b82f6', '#a855f7', '#ec4899'];
+
+export interface CollabSettings {
+  // WebSocket address of the relay, e.g. ws://192.168.1.20:8787
+  serverUrl: string;
+  // Shown next to this artist's cursor on the other tablets
+  name: string;
+}
+
+export interface CollabUser {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * What artists in a room send each other. Only `action` is kept by the relay
+ * for late joiners, the rest shows what is happening right now.
+ */
+export type CollabOp =
+  // A stroke was started, its points follow as they are drawn
+  | { type: 'stroke'; strokeId: string; stroke: StrokeAction }
+  | { type: 'points'; strokeId: string; points: StrokePoint[] }
+  // The stroke was dropped, e.g. by a second finger starting a pinch
+  | { type: 'cancel'; strokeId: string }
+  // A finished action, `strokeId` replaces the stroke drawn live
+  | { type: 'action'; action: DrawingAction; strokeId?: string }
+  // Where the artist is pointing, null once they leave the sheet
+  | { type: 'cursor'; point: Point | null };
+
+export type CollabErrorReason = 'unreachable' | 'not-found' | 'taken' | 'full' | 'invalid' | 'disconnected';
+
+/**
+ * Why a room couldn't be joined or was left. `message` is readable by grown-ups.
+ */
+export class CollabError extends Error {
+  readonly reason: CollabErrorReason;
+
+  constructor(reason: CollabErrorReason, message: string) {
+    super(message);
+    this.name = 'CollabError';
+    this.reason = reason;
+  }
+}
+
+const ERROR_MESSAGES: Record<CollabErrorReason, string> = {
+  unreachable: "The drawing relay couldn't be reached. Is it running on the same network?",
+  'not-found': 'There is no room with that code.',
+  taken: 'That room code is already in use.',
+  full: 'That room is full.',
+  invalid: "That room couldn't be opened. Check the code and try again.",
+  disconnected: 'The connection to the shared drawing was lost.',
+};
+
+export interface CollabSession {
+  room: string;
+  userId: string;
+  send: (op: CollabOp) => void;
+  // Ops from the other artists, returns a function that unsubscribes
+  subscribe: (listener: (from: string, op: CollabOp) => void) => () => void;
+  close: () => void;
+}
+
+export interface CollabCallbacks {
+  onUsers: (users: CollabUser[]) => void;
+  // The connection dropped, not called after `close`
+  onDisconnect: (error: CollabError) => void;
+}
+
+const isPoint = (p: unknown): p is Point => isRecord(p) && Number.isFinite(p.x) && Number.isFinite(p.y);
+
+const isStrokePoint = (p: unknown): p is StrokePoint =>
+  isRecord(p) && isPoint(p) && (p.pressure === undefined || Number.isFinite(p.pressure));
+
+/**
+ * Other tablets are trusted to be running the app, but not to be bug free, and
+ * the relay passes ops on without looking at them.
+ */
+export const isValidOp = (op: unknown): op is CollabOp => {
+  if (!isRecord(op)) return false;
+  switch (op.type) {
+    case 'stroke':
+      return (
+        typeof op.strokeId === 'string' &&
+        isRecord(op.stroke) &&
+        op.stroke.type === 'stroke' &&
+        isValidAction(op.stroke)
+      );
+    case 'points':
+      return typeof op.strokeId === 'string' && Array.isArray(op.points) && op.points.every(isStrokePoint);
+    case 'cancel':
+      return typeof op.strokeId === 'string';
+    case 'action':
+      return isValidAction(op.action) && (op.strokeId === undefined || typeof op.strokeId === 'string');
+    case 'cursor':
+      return op.point === null || isPoint(op.point);
+    default:
+      return false;
+  }
+};
+
+const isValidUser = (user: unknown): user is CollabUser =>
+  isRecord(user) && typeof user.id === 'string' && typeof user.name === 'string' && isHexColor(user.color);
+
+const readUsers = (users: unknown): CollabUser[] => (Array.isArray(users) ? users.filter(isValidUser) : []);
+
+const isErrorReason = (reason: unknown): reason is CollabErrorReason =>
+  typeof reason === 'string' && reason in ERROR_MESSAGES;
+
+export const getDefaultRelayUrl = () => `ws://${window.location.hostname || 'localhost'}:${RELAY_PORT}`;
+
+export const normalizeCollabSettings = (saved: Partial<CollabSettings> | undefined): CollabSettings => ({
+  serverUrl: typeof saved?.serverUrl === 'string' && saved.serverUrl ? saved.serverUrl : getDefaultRelayUrl(),
+  name: typeof saved?.name === 'string' ? saved.name : '',
+});
+
+export const createRoomCode = () => {
+  const values = crypto.getRandomValues(new Uint32Array(ROOM_CODE_LENGTH));
+  return Array.from(values, (value) => ROOM_CODE_LETTERS[value % ROOM_CODE_LETTERS.length]).join('');
+};
+
+export const normalizeRoomCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Connects to the relay and enters a room. Passing `doc` creates the room with
+ * that drawing, otherwise the room must exist. Resolves with the room's drawing
+ * as it is now, including everything drawn before joining.
+ */
+export const joinRoom = (
+  settings: CollabSettings,
+  room: string,
+  user: Omit<CollabUser, 'id'>,
+  callbacks: CollabCallbacks,
+  doc?: DrawingDocument
+): Promise<{ session: CollabSession; doc: DrawingDocument }> =>
+  new Promise((resolve, reject) => {
+    const listeners = new Set<(from: string, op: CollabOp) => void>();
+    // Ops that arrive before anyone listens, so none are lost while the canvas catches up
+    const pending: [string, CollabOp][] = [];
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(settings.serverUrl);
+    } catch (e) {
+      reject(new CollabError('unreachable', ERROR_MESSAGES.unreachable));
+      return;
+    }
+    let session: CollabSession | null = null;
+    let isClosed = false;
+
+    const fail = (reason: CollabErrorReason) => {
+      window.clearTimeout(timeout);
+      isClosed = true;
+      socket.close();
+      reject(new CollabError(reason, ERROR_MESSAGES[reason]));
+    };
+    const timeout = window.setTimeout(() => fail('unreachable'), CONNECT_TIMEOUT_MS);
+
+    socket.onopen = () => {
+      // Rooms start from the drawing in the project file format, so joiners can check it like an opened file
+      const message = doc
+        ? { type: 'create', room, user, doc: JSON.parse(serializeDocument(doc)) }
+        : { type: 'join', room, user };
+      socket.send(JSON.stringify(message));
+    };
+
+    socket.onmessage = (event) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(event.data);
+      } catch (e) {
+        console.warn('Ignoring a message from the relay', e);
+        return;
+      }
+      if (!isRecord(message)) return;
+
+      if (message.type === 'error' && !session) {
+        fail(isErrorReason(message.reason) ? message.reason : 'invalid');
+      } else if (message.type === 'welcome' && !session) {
+        if (typeof message.userId !== 'string') {
+          fail('invalid');
+          return;
+        }
+        let roomDoc: DrawingDocument;
+        try {
+          roomDoc = parseDocument(JSON.stringify(message.doc));
+        } catch (e) {
+          console.error('The room sent a damaged drawing', e);
+          fail('invalid');
+          return;
+        }
+        window.clearTimeout(timeout);
+        session = {
+          room,
+          userId: message.userId,
+          send: (op) => {
+            if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: 'op', op }));
+          },
+          subscribe: (listener) => {
+            listeners.add(listener);
+            pending.splice(0).forEach(([from, op]) => listener(from, op));
+            return () => listeners.delete(listener);
+          },
+          close: () => {
+            isClosed = true;
+            socket.close();
+          },
+        };
+        callbacks.onUsers(readUsers(message.users));
+        resolve({ session, doc: roomDoc });
+      } else if (message.type === 'users') {
+        callbacks.onUsers(readUsers(message.users));
+      } else if (message.type === 'op' && typeof message.from === 'string' && isValidOp(message.op)) {
+        const { from, op } = message;
+        if (listeners.size === 0) pending.push([from, op]);
+        listeners.forEach((listener) => listener(from, op));
+      }
+    };
+
+    socket.onclose = () => {
+      if (isClosed) return;
+      if (!session) {
+        fail('unreachable');
+        return;
+      }
+      isClosed = true;
+      callbacks.onDisconnect(new CollabError('disconnected', ERROR_MESSAGES.disconnected));
+    };
+  });
@@ -0,0 +1,136 @@
+import { SvgError, sanitizeSvg } from '../utils/svg';
+
+export type Difficulty = 'toddler' | 'kid' | 'older';
+
+export interface ColoringPageRequest {
+  // Base64 picture data without the data URL prefix
+  image: string;
+  mimeType: string;
+  difficulty: Difficulty;
+  // Which of several pages made from the same photo this is, 0 for the first
+  variant: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Something that turns a photo into coloring page SVG markup.
+ */
+export interface ColoringPageProvider {
+  generate: (request: ColoringPageRequest) => Promise<string>;
+}
+
+export interface MagicImportOptions {
+  difficulty: Difficulty;
+  // How many pages to make so the kid can pick one, 1 to MAX_VARIANTS
+  variants: number;
+}
+
+export const MAX_VARIANTS = 3;
+
+export const DEFAULT_MAGIC_IMPORT_OPTIONS: MagicImportOptions = { difficulty: 'kid', variants: 1 };
+
+export const DIFFICULTIES: Record<Difficulty, { label: string; emoji: string; detail: string }> = {
+  toddler: {
+    label: 'Toddler',
+    emoji: '🧸',
+    detail: `suitable for a 2 to 3 year old to color. Keep only the main subject as a few big, simple shapes.
+Leave out the background entirely. Use very thick outlines (stroke-width="5") and large areas to color.`,
+  },
+  kid: {
+    label: 'Kid',
+    emoji: '🖍️',
+    detail: `suitable for a 5-year-old to color. Simplify the details significantly and keep the background minimal.
+Use stroke-width="3".`,
+  },
+  older: {
+    label: 'Older Kid',
+    emoji: '🎨',
+    detail: `suitable for an 8 to 10 year old to color. Keep the recognizable details and some of the background,
+with plenty of smaller areas to color. Use stroke-width="2".`,
+  },
+};
+
+// How long one page may take before the import gives up
+const GENERATE_TIMEOUT_MS = 60_000;
+
+// Extra attempts when the answer isn't a usable SVG
+const MAX_RETRIES = 2;
+
+/**
+ * Instructions sent along with the photo. Later variants ask for a different
+ * take on the picture so the kid has a real choice.
+ */
+export const getColoringPagePrompt = (difficulty: Difficulty, variant = 0) => `You are an expert children's book illustrator.
+Analyze the provided image and generate an SVG code string representing a "Coloring Book" version of it.
+
+Requirements:
+1. Output ONLY valid SVG code. No markdown backticks, no text explanations.
+2. The SVG should be black outlines on a white background (or transparent).
+3. Make it ${DIFFICULTIES[difficulty].detail}
+4. Use strict strokes (stroke="black") and fill="none" (or fill="white") for closed shapes so they can be colored later.
+5. Ensure the SVG has a viewBox defined.
+6. The style should be cute, rounded, and friendly.
+${variant > 0 ? `7. This is alternative version number ${variant + 1}: choose a noticeably different composition or framing than usual.\n` : ''}`;
+
+/**
+ * Pulls the SVG out of a model's answer. Throws an SvgError if there isn't one.
+ */
+export const extractSvg = (text: string): string => {
+  // Remove markdown code blocks if the model adds them despite instructions
+  const svgText = text.replace(/```xml/g, '').replace(/```svg/g, '').replace(/```/g, '');
+  const start = svgText.indexOf('<svg');
+  const end = svgText.lastIndexOf('</svg>');
+  if (start === -1 || end === -1) {
+    throw new SvgError('invalid', "Failed to generate valid SVG");
+  }
+  return svgText.slice(start, end + '</svg>'.length);
+};
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Asks the provider for a page and returns it sanitized. Gives up after
+ * GENERATE_TIMEOUT_MS and asks again when the answer isn't a usable SVG.
+ * Rejects with an AbortError if `request.signal` is aborted.
+ */
+export const generateColoringPage = async (
+  provider: ColoringPageProvider,
+  request: ColoringPageRequest
+): Promise<string> => {
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    request.signal?.addEventListener('abort', abort);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, GENERATE_TIMEOUT_MS);
+
+    try {
+      if (request.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      const markup = await provider.generate({ ...request, signal: controller.signal });
+      return sanitizeSvg(markup);
+    } catch (error) {
+      if (timedOut) throw new Error('Magic Import took too long');
+      if (request.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      if (!(error instanceof SvgError) || attempt >= MAX_RETRIES) throw error;
+      console.warn(`Magic Import answer was not a usable SVG, trying again (${attempt + 1}/${MAX_RETRIES})`, error);
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', abort);
+    }
+  }
+};
+
+/**
+ * Options read back from storage, with anything missing or invalid replaced by the defaults.
+ */
+export const normalizeMagicImportOptions = (saved: Partial<MagicImportOptions> | undefined): MagicImportOptions => ({
+  difficulty: typeof saved?.difficulty === 'string' && saved.difficulty in DIFFICULTIES
+    ? saved.difficulty
+    : DEFAULT_MAGIC_IMPORT_OPTIONS.difficulty,
+  variants: typeof saved?.variants === 'number' && saved.variants >= 1 && saved.variants <= MAX_VARIANTS
+    ? Math.round(saved.variants)
+    : DEFAULT_MAGIC_IMPORT_OPTIONS.variants,
+});
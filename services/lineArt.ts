@@ -0,0 +1,44 @@
+import { DEFAULT_LINE_ART_OPTIONS, traceLineArt } from '../utils/lineArt';
+import { requestLineArt } from '../utils/lineArtWorker';
+
+// Longest side the photo is traced at, enough detail for a coloring page
+const MAX_TRACE_DIMENSION = 1024;
+
+const decodeImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load photo'));
+    img.src = src;
+  });
+
+/**
+ * Turns a photo into a coloring page on the device, without any network access.
+ * Returns a PNG data URL with black outlines on white.
+ */
+export const convertImageToLineArt = async (photoDataUrl: string): Promise<string> => {
+  const img = await decodeImage(photoDataUrl);
+  const ratio = Math.min(1, MAX_TRACE_DIMENSION / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.width * ratio));
+  canvas.height = Math.max(1, Math.round(img.height * ratio));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Failed to trace photo');
+
+  // Transparent parts of the photo become paper
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  let pixels: Uint8ClampedArray;
+  try {
+    pixels = await requestLineArt(ctx.getImageData(0, 0, canvas.width, canvas.height), DEFAULT_LINE_ART_OPTIONS);
+  } catch (e) {
+    // The photo's pixels went to the worker, read them again
+    console.error('Line art worker failed, tracing on the main thread', e);
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    pixels = traceLineArt(image.data, image.width, image.height, DEFAULT_LINE_ART_OPTIONS);
+  }
+  ctx.putImageData(new ImageData(pixels, canvas.width, canvas.height), 0, 0);
+  return canvas.toDataURL('image/png');
+};
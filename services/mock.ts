@@ -0,0 +1,34 @@
+import type { ColoringPageProvider, Difficulty } from './coloringPage';
+
+// Simple outlines the mock picks from, all closed so they can be filled
+const MOCK_SHAPES = [
+  '<circle cx="200" cy="150" r="100"/><circle cx="165" cy="125" r="12"/><circle cx="235" cy="125" r="12"/><path d="M150 185 Q200 230 250 185"/>',
+  '<path d="M200 40 L230 120 L315 120 L245 170 L270 255 L200 205 L130 255 L155 170 L85 120 L170 120 Z"/>',
+  '<rect x="110" y="140" width="180" height="120"/><path d="M95 140 L200 55 L305 140 Z"/><rect x="180" y="200" width="40" height="60"/>',
+  '<path d="M200 260 Q80 180 80 110 Q80 55 140 55 Q180 55 200 95 Q220 55 260 55 Q320 55 320 110 Q320 180 200 260 Z"/>',
+];
+
+// Thicker outlines for younger kids, like the real prompt asks for
+const MOCK_STROKE_WIDTHS: Record<Difficulty, number> = { toddler: 5, kid: 3, older: 2 };
+
+// FNV-1a, so the same picture always gives the same page
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * Answers instantly without any network, for development and tests.
+ * The result only depends on the picture data, the difficulty and the variant.
+ */
+export const createMockProvider = (): ColoringPageProvider => ({
+  generate: async ({ image, difficulty, variant, signal }) => {
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    const shape = MOCK_SHAPES[(hash(image) + variant) % MOCK_SHAPES.length];
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 300" width="400" height="300"><g fill="none" stroke="black" stroke-width="${MOCK_STROKE_WIDTHS[difficulty]}" stroke-linejoin="round">${shape}</g></svg>`;
+  },
+});
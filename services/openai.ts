@@ -0,0 +1,52 @@
+import type { ColoringPageProvider } from './coloringPage';
+import { extractSvg, getColoringPagePrompt } from './coloringPage';
+
+interface OpenAIOptions {
+  // Base URL, `/chat/completions` is appended
+  endpoint: string;
+  model: string;
+  // Local servers usually don't need one
+  apiKey: string;
+}
+
+/**
+ * Talks to any server with an OpenAI-style chat completions API that accepts
+ * images, such as OpenAI itself or a vision model running locally.
+ */
+export const createOpenAIProvider = ({ endpoint, model, apiKey }: OpenAIOptions): ColoringPageProvider => ({
+  generate: async ({ image, mimeType, difficulty, variant, signal }) => {
+    const url = `${endpoint.replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        signal,
+        body: JSON.stringify({
+          model,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: getColoringPagePrompt(difficulty, variant) },
+                { type: 'image_url', image_url: { url: `data:${mimeType};base64,${image}` } },
+              ],
+            },
+          ],
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Coloring page server answered ${response.status}`);
+      }
+
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      return extractSvg(typeof text === 'string' ? text : '');
+    } catch (error) {
+      console.error("OpenAI-compatible API Error:", error);
+      throw error;
+    }
+  },
+});
@@ -0,0 +1,64 @@
+import type { ColoringPageProvider } from './coloringPage';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  // Empty uses the provider's default model
+  model: string;
+  // Base URL of an OpenAI-compatible server, e.g. a local one
+  endpoint: string;
+  // Empty uses the key from the environment
+  apiKey: string;
+}
+
+export const PROVIDERS: Record<ProviderId, { label: string; defaultModel: string }> = {
+  gemini: { label: 'Google Gemini', defaultModel: 'gemini-2.5-flash' },
+  openai: { label: 'OpenAI-compatible server', defaultModel: 'gpt-4o-mini' },
+  mock: { label: 'Pretend (no network)', defaultModel: 'mock' },
+};
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  typeof value === 'string' && value in PROVIDERS;
+
+// Chosen at build time with COLORING_PROVIDER, COLORING_MODEL and COLORING_ENDPOINT in .env.local
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: isProviderId(process.env.COLORING_PROVIDER) ? process.env.COLORING_PROVIDER : 'gemini',
+  model: process.env.COLORING_MODEL || '',
+  endpoint: process.env.COLORING_ENDPOINT || 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+/**
+ * Builds the provider for the given settings. Nothing is contacted until
+ * `generate` is called, so a missing key only fails the import, not the app.
+ */
+export const createColoringPageProvider = (settings: ProviderSettings): ColoringPageProvider => {
+  const model = settings.model.trim() || PROVIDERS[settings.provider].defaultModel;
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAIProvider({
+        endpoint: settings.endpoint,
+        model,
+        apiKey: settings.apiKey || process.env.OPENAI_API_KEY || '',
+      });
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider({ model, apiKey: settings.apiKey || process.env.API_KEY || '' });
+  }
+};
+
+/**
+ * Settings read back from storage, with anything missing or unknown replaced by the defaults.
+ */
+export const normalizeProviderSettings = (saved: Partial<ProviderSettings> | undefined): ProviderSettings => ({
+  provider: isProviderId(saved?.provider) ? saved.provider : DEFAULT_PROVIDER_SETTINGS.provider,
+  model: typeof saved?.model === 'string' ? saved.model : DEFAULT_PROVIDER_SETTINGS.model,
+  endpoint: typeof saved?.endpoint === 'string' && saved.endpoint ? saved.endpoint : DEFAULT_PROVIDER_SETTINGS.endpoint,
+  apiKey: typeof saved?.apiKey === 'string' ? saved.apiKey : '',
+});
@@ -3,15 +3,161 @@ export enum ToolType {
   BRUSH = 'BRUSH',
   ERASER = 'ERASER',
   BUCKET = 'BUCKET',
+  SHAPE = 'SHAPE',
+  STAMP = 'STAMP',
+  // Picks up a color from the drawing
+  EYEDROPPER = 'EYEDROPPER',
+}
+
+export enum ShapeType {
+  LINE = 'LINE',
+  RECTANGLE = 'RECTANGLE',
+  CIRCLE = 'CIRCLE',
+  STAR = 'STAR',
+  HEART = 'HEART',
+}
+
+// Textures of the BRUSH tool, see utils/brushes.ts
+export enum BrushPreset {
+  ROUND = 'ROUND',
+  CRAYON = 'CRAYON',
+  MARKER = 'MARKER',
+  SPRAY = 'SPRAY',
+  RAINBOW = 'RAINBOW',
+  GLITTER = 'GLITTER',
+}
+
+export enum SymmetryMode {
+  NONE = 'NONE',
+  // Mirror left and right
+  HORIZONTAL = 'HORIZONTAL',
+  // Mirror top and bottom
+  VERTICAL = 'VERTICAL',
+  QUAD = 'QUAD',
+  RADIAL = 'RADIAL',
+}
+
+export interface Symmetry {
+  mode: SymmetryMode;
+  // Number of kaleidoscope segments, only used by RADIAL
+  segments: number;
 }
 
 export interface DrawingState {
   color: string;
+  // Percentage, lower is more see-through
+  opacity: number;
   tool: ToolType;
   brushSize: number;
+  brushPreset: BrushPreset;
+  // Bucket settings, see FillOptions in utils/floodFill.ts
+  fillTolerance: number;
+  gapClosing: number;
+  // Input settings, see Canvas pointer handling
+  penOnly: boolean;
+  palmRejection: boolean;
+  // Shape tool settings
+  shape: ShapeType;
+  shapeFilled: boolean;
+  lockAspect: boolean;
+  // Id of the selected sticker, see utils/stickers.ts
+  sticker: string;
+  symmetry: Symmetry;
+  showSymmetryGuides: boolean;
+}
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 export interface Point {
   x: number;
   y: number;
-}
\ No newline at end of file
+}
+
+export interface StrokePoint extends Point {
+  // Stylus pressure from 0 to 1, only recorded for pens
+  pressure?: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// --- Document model ---
+// A drawing is an ordered list of actions in document coordinates.
+// The canvas pixels are only ever a rendering of this list.
+
+export interface StrokeAction {
+  type: 'stroke';
+  tool: ToolType;
+  color: string;
+  size: number;
+  points: StrokePoint[];
+  // Only set for BRUSH strokes, older documents use the plain round brush
+  brush?: BrushPreset;
+  // Seed for the textured brushes, so a stroke replays exactly as it was drawn
+  seed?: number;
+  // Strokes drawn in a mirror mode are replicated around the document center
+  symmetry?: Symmetry;
+}
+
+export interface FillAction {
+  type: 'fill';
+  x: number;
+  y: number;
+  color: string;
+  // Older documents don't store these and use the defaults
+  tolerance?: number;
+  gapClosing?: number;
+}
+
+export type LayerId = 'paint' | 'lineArt';
+
+export interface ShapeAction {
+  type: 'shape';
+  shape: ShapeType;
+  color: string;
+  size: number;
+  filled: boolean;
+  // Corners of the bounding box, or the two ends of a line
+  start: Point;
+  end: Point;
+}
+
+export interface StampAction {
+  type: 'stamp';
+  // Id of a built-in sticker
+  sticker: string;
+  color: string;
+  // Width and height in document units
+  size: number;
+  // Center of the sticker
+  x: number;
+  y: number;
+}
+
+export interface ImportAction {
+  type: 'import';
+  // Data URL of the imported picture (usually an SVG coloring page)
+  src: string;
+  // Defaults to the locked line-art layer
+  layer?: LayerId;
+}
+
+export interface ClearAction {
+  type: 'clear';
+}
+
+export type DrawingAction = StrokeAction | FillAction | ShapeAction | StampAction | ImportAction | ClearAction;
+
+export interface DrawingDocument {
+  version: number;
+  width: number;
+  height: number;
+  actions: DrawingAction[];
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import starterPack from '../activities/starter.json';
+import { createDocument } from './document';
+import {
+  ACTIVITY_FORMAT,
+  ACTIVITY_VERSION,
+  ActivityProgress,
+  STARTER_ACTIVITIES,
+  connectDot,
+  isActivityComplete,
+  readActivityPack,
+  scoreTrace,
+  startActivity,
+  traceStroke,
+} from './activities';
+
+const pack = (activities: unknown[]) => ({ format: ACTIVITY_FORMAT, version: ACTIVITY_VERSION, activities });
+
+// A straight line across the middle of the activity square
+const LINE = [{ x: 10, y: 50 }, { x: 90, y: 50 }];
+
+describe('readActivityPack', () => {
+  it('reads the starter pack', () => {
+    const activities = readActivityPack(starterPack);
+    expect(activities).toEqual(STARTER_ACTIVITIES);
+    expect(activities.some((activity) => activity.type === 'dots')).toBe(true);
+    expect(activities.some((activity) => activity.type === 'trace')).toBe(true);
+    expect(new Set(activities.map((activity) => activity.id)).size).toBe(activities.length);
+  });
+
+  it('turns [x, y] pairs into points', () => {
+    const [activity] = readActivityPack(pack([{ id: 'line', type: 'dots', name: 'Line', points: [[1, 2], [3, 4]] }]));
+    expect(activity).toEqual({ type: 'dots', id: 'line', name: 'Line', points: [{ x: 1, y: 2 }, { x: 3, y: 4 }], closed: false });
+  });
+
+  it('rejects packs it cannot use', () => {
+    expect(() => readActivityPack(null)).toThrow('not a Little Picasso activity pack');
+    expect(() => readActivityPack({ ...pack([]), version: ACTIVITY_VERSION + 1 })).toThrow('newer version');
+    expect(() => readActivityPack({ ...pack([]), activities: {} })).toThrow('damaged');
+    expect(() => readActivityPack(pack([{ type: 'dots', points: [[0, 0], [1, 1]] }]))).toThrow('needs an id and a name');
+    expect(() => readActivityPack(pack([{ id: 'a', type: 'dots', name: 'One dot', points: [[0, 0]] }]))).toThrow(
+      '"One dot" is not'
+    );
+    expect(() =>
+      readActivityPack(pack([{ id: 'b', type: 'trace', name: 'Squiggle', category: 'word', paths: [[[0, 0], [1, 1]]] }]))
+    ).toThrow('"Squiggle" is not');
+  });
+});
+
+describe('scoreTrace', () => {
+  it('scores an exact trace as perfect', () => {
+    expect(scoreTrace(LINE, LINE, 5)).toBe(1);
+  });
+
+  it('scores a trace off to the side by how far it strays', () => {
+    const near = LINE.map((p) => ({ x: p.x, y: p.y + 3 }));
+    const far = LINE.map((p) => ({ x: p.x, y: p.y + 20 }));
+    expect(scoreTrace(LINE, near, 5)).toBe(1);
+    expect(scoreTrace(LINE, far, 5)).toBe(0);
+  });
+
+  it('scores half a trace by the share of the path covered', () => {
+    const half = [{ x: 10, y: 50 }, { x: 50, y: 50 }];
+    expect(scoreTrace(LINE, half, 5)).toBeCloseTo(0.55, 1);
+  });
+
+  it('scores an empty trace as zero', () => {
+    expect(scoreTrace(LINE, [], 5)).toBe(0);
+  });
+});
+
+describe('playing an activity', () => {
+  const doc = createDocument(200, 100);
+
+  it('connects dots in order only', () => {
+    let progress: ActivityProgress = startActivity(
+      { type: 'dots', id: 'tri', name: 'Triangle', points: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 50, y: 100 }], closed: true },
+      doc
+    );
+    const [first, second, third] = progress.paths[0];
+    expect(connectDot(progress, second)).toBeNull();
+
+    const steps = [first, second, third].map((dot) => {
+      const result = connectDot(progress, dot)!;
+      progress = result.progress;
+      return result.lines.length;
+    });
+    // Nothing to draw at the first dot, the last one also closes the shape
+    expect(steps).toEqual([0, 1, 2]);
+    expect(isActivityComplete(progress)).toBe(true);
+  });
+
+  it('moves on only when a trace is close enough', () => {
+    const start = startActivity({ type: 'trace', id: 'line', name: 'Line', category: 'shape', paths: [LINE] }, doc);
+    const missed = traceStroke(start, [], 5);
+    expect(missed).toMatchObject({ done: 0, missed: true });
+
+    const traced = traceStroke(missed, start.paths[0], 5);
+    expect(traced).toMatchObject({ done: 1, missed: false, scores: [1] });
+    expect(isActivityComplete(traced)).toBe(true);
+  });
+});
@@ -0,0 +1,216 @@
+import { DrawingDocument, Point } from '../types';
+import starterPack from '../activities/starter.json';
+import { isRecord } from './document';
+
+export const ACTIVITY_FORMAT = 'little-picasso-activities';
+export const ACTIVITY_VERSION = 1;
+
+// Activities are drawn in a square of this many units, placed in the middle of the page
+export const ACTIVITY_BOX = 100;
+// Share of the page's shorter side the activity square covers
+const ACTIVITY_PAGE_SHARE = 0.8;
+
+// How close to a dot a tap has to land, in activity units
+const DOT_HIT_RADIUS = 6;
+// How far a traced stroke may stray from the path, in activity units
+const TRACE_TOLERANCE = 5;
+// Strokes scoring less than this don't count, the kid gets another go
+const MIN_TRACE_SCORE = 0.4;
+
+export type TraceCategory = 'letter' | 'number' | 'shape';
+
+/**
+ * Numbered dots, tapped in order to draw the picture.
+ */
+export interface DotToDotActivity {
+  type: 'dots';
+  id: string;
+  name: string;
+  points: Point[];
+  // Join the last dot back to the first one
+  closed: boolean;
+}
+
+/**
+ * Dashed paths to trace, one stroke each, in the order they should be drawn.
+ */
+export interface TracingActivity {
+  type: 'trace';
+  id: string;
+  name: string;
+  category: TraceCategory;
+  paths: Point[][];
+}
+
+export type Activity = DotToDotActivity | TracingActivity;
+
+export interface ActivityProgress {
+  activity: Activity;
+  // The activity's dots or paths placed on the page, in document units
+  paths: Point[][];
+  // Activity units to document units
+  scale: number;
+  // Dots connected or paths traced so far
+  done: number;
+  // Score of each traced path, from 0 to 1
+  scores: number[];
+  // The last stroke was too far off the path
+  missed: boolean;
+}
+
+const isPoint = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every((n) => typeof n === 'number' && Number.isFinite(n));
+
+const isPointList = (value: unknown, minLength: number): value is [number, number][] =>
+  Array.isArray(value) && value.length >= minLength && value.every(isPoint);
+
+const isTraceCategory = (value: unknown): value is TraceCategory =>
+  value === 'letter' || value === 'number' || value === 'shape';
+
+const toPoints = (list: [number, number][]): Point[] => list.map(([x, y]) => ({ x, y }));
+
+/**
+ * Reads an activity pack: `{ format, version, activities }` where every activity
+ * has an `id`, a `name` and either dots (`"type": "dots"`, `points`, `closed`)
+ * or paths to trace (`"type": "trace"`, `category`, `paths`). Points are `[x, y]`
+ * pairs in a 100 by 100 square. Throws an Error with a human readable message
+ * if the pack can't be used.
+ */
+export const readActivityPack = (data: unknown): Activity[] => {
+  if (!isRecord(data) || data.format !== ACTIVITY_FORMAT || typeof data.version !== 'number') {
+    throw new Error('This is not a Little Picasso activity pack.');
+  }
+  if (data.version > ACTIVITY_VERSION) {
+    throw new Error('This activity pack was made for a newer version of Little Picasso.');
+  }
+  if (!Array.isArray(data.activities)) {
+    throw new Error('This activity pack is damaged.');
+  }
+
+  return data.activities.map((item: unknown, index): Activity => {
+    if (!isRecord(item) || typeof item.id !== 'string' || typeof item.name !== 'string') {
+      throw new Error(`Activity ${index + 1} needs an id and a name.`);
+    }
+    if (item.type === 'dots' && isPointList(item.points, 2)) {
+      return { type: 'dots', id: item.id, name: item.name, points: toPoints(item.points), closed: item.closed === true };
+    }
+    if (
+      item.type === 'trace' &&
+      isTraceCategory(item.category) &&
+      Array.isArray(item.paths) &&
+      item.paths.length > 0 &&
+      item.paths.every((path: unknown) => isPointList(path, 2))
+    ) {
+      return { type: 'trace', id: item.id, name: item.name, category: item.category, paths: item.paths.map(toPoints) };
+    }
+    throw new Error(`"${item.name}" is not a dot-to-dot or tracing activity.`);
+  });
+};
+
+/**
+ * Activities bundled with the app, so they work offline.
+ */
+export const STARTER_ACTIVITIES: Activity[] = readActivityPack(starterPack);
+
+/**
+ * Places an activity in the middle of the page.
+ */
+export const startActivity = (activity: Activity, doc: DrawingDocument): ActivityProgress => {
+  const size = Math.min(doc.width, doc.height) * ACTIVITY_PAGE_SHARE;
+  const scale = size / ACTIVITY_BOX;
+  const left = (doc.width - size) / 2;
+  const top = (doc.height - size) / 2;
+  const place = (points: Point[]) => points.map((p) => ({ x: left + p.x * scale, y: top + p.y * scale }));
+
+  return {
+    activity,
+    paths: activity.type === 'dots' ? [place(activity.points)] : activity.paths.map(place),
+    scale,
+    done: 0,
+    scores: [],
+    missed: false,
+  };
+};
+
+export const isActivityComplete = (progress: ActivityProgress) =>
+  progress.done >= (progress.activity.type === 'dots' ? progress.paths[0].length : progress.paths.length);
+
+/**
+ * Connects the next dot if `pos` is on it. Returns the lines to draw, as start
+ * and end points, or null if the tap missed.
+ */
+export const connectDot = (progress: ActivityProgress, pos: Point): { progress: ActivityProgress; lines: [Point, Point][] } | null => {
+  const { activity, paths, done } = progress;
+  const dots = paths[0];
+  if (activity.type !== 'dots' || isActivityComplete(progress)) return null;
+
+  const next = dots[done];
+  if (Math.hypot(pos.x - next.x, pos.y - next.y) > DOT_HIT_RADIUS * progress.scale) return null;
+
+  const lines: [Point, Point][] = done > 0 ? [[dots[done - 1], next]] : [];
+  // The last dot closes the shape
+  if (done === dots.length - 1 && activity.closed) lines.push([next, dots[0]]);
+  return { progress: { ...progress, done: done + 1 }, lines };
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const distanceToPath = (p: Point, path: Point[]) => {
+  if (path.length === 1) return Math.hypot(p.x - path[0].x, p.y - path[0].y);
+  let best = Infinity;
+  for (let i = 1; i < path.length; i++) best = Math.min(best, distanceToSegment(p, path[i - 1], path[i]));
+  return best;
+};
+
+// Points along a path no more than `step` apart, so long segments weigh as much as they look
+const resample = (path: Point[], step: number): Point[] => {
+  const points = [path[0]];
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const count = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / step));
+    for (let n = 1; n <= count; n++) points.push({ x: a.x + ((b.x - a.x) * n) / count, y: a.y + ((b.y - a.y) * n) / count });
+  }
+  return points;
+};
+
+/**
+ * How well a stroke follows a path, from 0 to 1: the share of the path the
+ * stroke covers times the share of the stroke that stays on the path.
+ */
+export const scoreTrace = (path: Point[], stroke: Point[], tolerance: number): number => {
+  if (stroke.length === 0) return 0;
+  const step = tolerance / 2;
+  const pathPoints = resample(path, step);
+  const strokePoints = resample(stroke, step);
+  const covered = pathPoints.filter((p) => distanceToPath(p, stroke) <= tolerance).length / pathPoints.length;
+  const onPath = strokePoints.filter((p) => distanceToPath(p, path) <= tolerance).length / strokePoints.length;
+  return covered * onPath;
+};
+
+/**
+ * Scores a stroke against the path being traced and moves on to the next path
+ * if it was close enough. `brushSize` widens the tolerance for thick brushes.
+ */
+export const traceStroke = (progress: ActivityProgress, stroke: Point[], brushSize: number): ActivityProgress => {
+  if (progress.activity.type !== 'trace' || isActivityComplete(progress)) return progress;
+
+  const tolerance = TRACE_TOLERANCE * progress.scale + brushSize / 2;
+  const score = scoreTrace(progress.paths[progress.done], stroke, tolerance);
+  if (score < MIN_TRACE_SCORE) return { ...progress, missed: true };
+  return { ...progress, done: progress.done + 1, scores: [...progress.scores, score], missed: false };
+};
+
+/**
+ * One to three stars for a finished tracing activity.
+ */
+export const getTraceStars = (progress: ActivityProgress) => {
+  const average = progress.scores.reduce((sum, score) => sum + score, 0) / Math.max(1, progress.scores.length);
+  return average >= 0.85 ? 3 : average >= 0.65 ? 2 : 1;
+};
@@ -0,0 +1,124 @@
+import { BrushPreset } from '../types';
+
+export interface BrushConfig {
+  label: string;
+  emoji: string;
+  // Distance between dabs as a fraction of the brush size
+  spacing: number;
+  // Opacity the whole stroke is laid down with, overlaps within a stroke don't add up
+  strokeOpacity: number;
+}
+
+export const BRUSH_PRESETS: Record<BrushPreset, BrushConfig> = {
+  [BrushPreset.ROUND]: { label: 'Round', emoji: '🖌️', spacing: 0, strokeOpacity: 1 },
+  [BrushPreset.CRAYON]: { label: 'Crayon', emoji: '🖍️', spacing: 0.15, strokeOpacity: 1 },
+  [BrushPreset.MARKER]: { label: 'Marker', emoji: '🖊️', spacing: 0.1, strokeOpacity: 0.55 },
+  [BrushPreset.SPRAY]: { label: 'Spray', emoji: '💨', spacing: 0.25, strokeOpacity: 1 },
+  [BrushPreset.RAINBOW]: { label: 'Rainbow', emoji: '🌈', spacing: 0.1, strokeOpacity: 1 },
+  [BrushPreset.GLITTER]: { label: 'Glitter', emoji: '✨', spacing: 0.4, strokeOpacity: 1 },
+};
+
+/**
+ * Small seeded PRNG (mulberry32), so a stroke replays with the same texture every time.
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createStrokeSeed = () => Math.floor(Math.random() * 0x7fffffff);
+
+// Degrees the rainbow brush moves around the color wheel per dab
+const RAINBOW_HUE_STEP = 4;
+
+export interface Dab {
+  x: number;
+  y: number;
+  // Diameter in canvas pixels
+  size: number;
+  color: string;
+  // Running number of the dab within the stroke
+  index: number;
+}
+
+const randomInCircle = (random: () => number, radius: number) => {
+  const angle = random() * Math.PI * 2;
+  const distance = Math.sqrt(random()) * radius;
+  return { dx: Math.cos(angle) * distance, dy: Math.sin(angle) * distance };
+};
+
+const drawSparkle = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number) => {
+  ctx.beginPath();
+  ctx.moveTo(x, y - radius);
+  ctx.quadraticCurveTo(x, y, x + radius, y);
+  ctx.quadraticCurveTo(x, y, x, y + radius);
+  ctx.quadraticCurveTo(x, y, x - radius, y);
+  ctx.quadraticCurveTo(x, y, x, y - radius);
+  ctx.fill();
+};
+
+/**
+ * Stamps a single dab of a textured brush. All randomness comes from `random`,
+ * which must be consumed in the same order when the stroke is replayed.
+ */
+export const drawDab = (ctx: CanvasRenderingContext2D, preset: BrushPreset, dab: Dab, random: () => number) => {
+  const radius = dab.size / 2;
+  ctx.fillStyle = dab.color;
+
+  switch (preset) {
+    case BrushPreset.CRAYON: {
+      // Waxy texture: lots of small specks with gaps where the paper shows through
+      const specks = Math.ceil(dab.size * 1.2);
+      const speckSize = Math.max(1, dab.size / 12);
+      for (let i = 0; i < specks; i++) {
+        const { dx, dy } = randomInCircle(random, radius - speckSize);
+        ctx.globalAlpha = 0.4 + random() * 0.5;
+        ctx.fillRect(dab.x + dx, dab.y + dy, speckSize, speckSize);
+      }
+      ctx.globalAlpha = 1;
+      return;
+    }
+    case BrushPreset.SPRAY: {
+      const dots = Math.ceil(dab.size * 1.5);
+      const dotSize = Math.max(1, dab.size / 40);
+      ctx.globalAlpha = 0.35;
+      for (let i = 0; i < dots; i++) {
+        const { dx, dy } = randomInCircle(random, radius - dotSize);
+        ctx.fillRect(dab.x + dx, dab.y + dy, dotSize, dotSize);
+      }
+      ctx.globalAlpha = 1;
+      return;
+    }
+    case BrushPreset.RAINBOW:
+      ctx.fillStyle = `hsl(${(dab.index * RAINBOW_HUE_STEP) % 360}, 90%, 55%)`;
+      ctx.beginPath();
+      ctx.arc(dab.x, dab.y, radius, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+    case BrushPreset.GLITTER: {
+      const sparkles = 3 + Math.floor(random() * 3);
+      for (let i = 0; i < sparkles; i++) {
+        // Kept inside the dab so the stroke bounds still hold
+        const { dx, dy } = randomInCircle(random, radius * 0.6);
+        const sparkleRadius = radius * (0.15 + random() * 0.25);
+        // Mostly the chosen color, with the odd white or gold glint
+        const glint = random();
+        ctx.fillStyle = glint > 0.8 ? '#ffffff' : glint > 0.65 ? '#facc15' : dab.color;
+        drawSparkle(ctx, dab.x + dx, dab.y + dy, sparkleRadius);
+      }
+      return;
+    }
+    case BrushPreset.MARKER:
+    default:
+      ctx.beginPath();
+      ctx.arc(dab.x, dab.y, radius, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+  }
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { formatHexColor, getOpaqueColor, isHexColor, parseHexColor, setColorOpacity } from './color';
+
+describe('isHexColor', () => {
+  it('accepts hex colors with 3, 4, 6 or 8 digits', () => {
+    ['#f80', '#f808', '#ff8800', '#FF880080'].forEach((color) => expect(isHexColor(color)).toBe(true));
+  });
+
+  it('needs the leading #, canvases ignore colors without it', () => {
+    expect(isHexColor('ff0000')).toBe(false);
+    expect(isHexColor('f80')).toBe(false);
+  });
+
+  it('rejects anything else', () => {
+    ['', '#', '#12345', '#ggg', 'red', 'rgb(0, 0, 0)', null, 255].forEach((value) => expect(isHexColor(value)).toBe(false));
+  });
+});
+
+describe('parseHexColor', () => {
+  it('expands short forms and defaults to opaque', () => {
+    expect(parseHexColor('#f80')).toEqual([255, 136, 0, 255]);
+    expect(parseHexColor('#f808')).toEqual([255, 136, 0, 136]);
+    expect(parseHexColor('#3b82f680')).toEqual([59, 130, 246, 128]);
+  });
+});
+
+describe('formatHexColor', () => {
+  it('only writes alpha for see-through colors', () => {
+    expect(formatHexColor(59, 130, 246)).toBe('#3b82f6');
+    expect(formatHexColor(59, 130, 246, 128)).toBe('#3b82f680');
+    expect(setColorOpacity('#3b82f6', 0.5)).toBe('#3b82f680');
+    expect(getOpaqueColor('#3b82f680')).toBe('#3b82f6');
+  });
+});
@@ -0,0 +1,43 @@
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && HEX_COLOR.test(value);
+
+/**
+ * RGBA bytes of a `#rgb`, `#rgba`, `#rrggbb` or `#rrggbbaa` color. Colors without
+ * alpha are opaque.
+ */
+export const parseHexColor = (hex: string): [number, number, number, number] => {
+  let value = hex.replace('#', '');
+  // Short forms repeat each digit, #f80 is #ff8800
+  if (value.length === 3 || value.length === 4) value = value.replace(/./g, (digit) => digit + digit);
+  return [
+    parseInt(value.substring(0, 2), 16),
+    parseInt(value.substring(2, 4), 16),
+    parseInt(value.substring(4, 6), 16),
+    value.length === 8 ? parseInt(value.substring(6, 8), 16) : 255,
+  ];
+};
+
+const toHexByte = (value: number) => Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, '0');
+
+/**
+ * `#rrggbb`, or `#rrggbbaa` when the color isn't opaque.
+ */
+export const formatHexColor = (r: number, g: number, b: number, a = 255) =>
+  `#${toHexByte(r)}${toHexByte(g)}${toHexByte(b)}${a < 255 ? toHexByte(a) : ''}`;
+
+// Opacity from 0 to 1
+export const getColorOpacity = (hex: string) => parseHexColor(hex)[3] / 255;
+
+export const getOpaqueColor = (hex: string) => {
+  const [r, g, b] = parseHexColor(hex);
+  return formatHexColor(r, g, b);
+};
+
+/**
+ * The color with its alpha replaced, `opacity` going from 0 to 1.
+ */
+export const setColorOpacity = (hex: string, opacity: number) => {
+  const [r, g, b] = parseHexColor(hex);
+  return formatHexColor(r, g, b, opacity * 255);
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { parseHexColor } from './color';
+import { findDoneRegions, numberRegions } from './colorByNumber';
+
+const WIDTH = 40;
+const HEIGHT = 20;
+const PALETTE = ['#ef4444', '#3b82f6'];
+
+// Two boxes side by side, sharing the outline down the middle
+const twoBoxes = () => {
+  const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(255);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      if (y === 0 || y === HEIGHT - 1 || x === 0 || x === WIDTH / 2 || x === WIDTH - 1) {
+        pixels.set([0, 0, 0, 255], (y * WIDTH + x) * 4);
+      }
+    }
+  }
+  return pixels;
+};
+
+// Paint layer with the left or right box painted in `color`, empty everywhere else
+const paintBox = (left: boolean, color: string) => {
+  const rgba = parseHexColor(color);
+  const paint = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 1; y < HEIGHT - 1; y++) {
+    for (let x = left ? 1 : WIDTH / 2 + 1; x < (left ? WIDTH / 2 : WIDTH - 1); x++) paint.set(rgba, (y * WIDTH + x) * 4);
+  }
+  return paint;
+};
+
+describe('numberRegions', () => {
+  it('numbers each box, giving neighbors different colors', () => {
+    const activity = numberRegions(twoBoxes(), WIDTH, HEIGHT, 1, PALETTE);
+    expect(activity.regions).toHaveLength(2);
+    const [a, b] = activity.regions;
+    expect(a.label).not.toBe(b.label);
+    expect(a.number).not.toBe(b.number);
+    expect(a.color).toBe(PALETTE[a.number - 1]);
+
+    // Outlines get no label, each box one label of its own
+    expect(activity.labels[0]).toBe(0);
+    expect(activity.labels[WIDTH / 2]).toBe(0);
+    const left = activity.labels[5 * WIDTH + 5];
+    const right = activity.labels[5 * WIDTH + WIDTH - 5];
+    expect(new Set([left, right])).toEqual(new Set([a.label, b.label]));
+  });
+
+  it('leaves out slivers too small for a number', () => {
+    const pixels = twoBoxes();
+    // A 2x2 pocket walled off in the corner of the left box
+    for (let i = 1; i <= 3; i++) {
+      pixels.set([0, 0, 0, 255], (3 * WIDTH + i) * 4);
+      pixels.set([0, 0, 0, 255], (i * WIDTH + 3) * 4);
+    }
+    const activity = numberRegions(pixels, WIDTH, HEIGHT, 1, PALETTE);
+    expect(activity.regions).toHaveLength(2);
+    expect(activity.labels[1 * WIDTH + 1]).toBe(0);
+  });
+});
+
+describe('findDoneRegions', () => {
+  it('marks only the box painted in its color', () => {
+    const activity = numberRegions(twoBoxes(), WIDTH, HEIGHT, 1, PALETTE);
+    const left = activity.regions.find((region) => region.label === activity.labels[5 * WIDTH + 5])!;
+    const right = activity.regions.find((region) => region !== left)!;
+
+    expect(findDoneRegions(activity, new Uint8ClampedArray(WIDTH * HEIGHT * 4))).toEqual(new Set());
+    expect(findDoneRegions(activity, paintBox(true, left.color))).toEqual(new Set([left.label]));
+    // In the other box's color it doesn't count
+    expect(findDoneRegions(activity, paintBox(true, right.color))).toEqual(new Set());
+  });
+});
@@ -0,0 +1,273 @@
+import { DrawingDocument } from '../types';
+import { parseHexColor } from './color';
+import { DEFAULT_FILL_OPTIONS, scanlineFill } from './floodFill';
+import { getDocumentScale } from './renderer';
+
+// Largest distance between two RGBA colors, as in floodFill
+const MAX_COLOR_DISTANCE = 510;
+
+// Regions smaller than this share of the page get no number, they're bits of outline
+const MIN_REGION_SHARE = 0.0004;
+const MIN_REGION_PIXELS = 150;
+
+// Outlines thicker than this many document units don't make two regions neighbors
+const MAX_LINE_WIDTH = 12;
+
+// A region counts as done once this share of it has its color
+const DONE_SHARE = 0.9;
+// Most pixels looked at when checking which regions are done
+const MAX_CHECKED_PIXELS = 250000;
+
+// Font size of the numbers in document units
+const MIN_NUMBER_SIZE = 10;
+const MAX_NUMBER_SIZE = 32;
+
+export interface NumberedRegion {
+  // Label of the region's pixels in ColorByNumber.labels
+  label: number;
+  // Number shown, 1 for the first palette color
+  number: number;
+  color: string;
+  // Where the number goes, in document units
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface ColorByNumber {
+  // Size of the canvas the regions were found on, in pixels
+  width: number;
+  height: number;
+  // Region label of every canvas pixel, 0 for outlines
+  labels: Int32Array;
+  regions: NumberedRegion[];
+  // Color of each number, palette[number - 1]
+  palette: string[];
+}
+
+const readPixels = (canvas: HTMLCanvasElement) =>
+  canvas.getContext('2d', { willReadFrequently: true })?.getImageData(0, 0, canvas.width, canvas.height).data ?? null;
+
+/**
+ * Pixels the bucket treats as paper: close enough to white with the default tolerance.
+ */
+const findOpenPixels = (lineArt: Uint8ClampedArray, count: number) => {
+  const maxDistance = (DEFAULT_FILL_OPTIONS.tolerance / 100) * MAX_COLOR_DISTANCE;
+  const limit = maxDistance * maxDistance;
+  const open = new Uint8Array(count);
+  for (let i = 0, pos = 0; i < count; i++, pos += 4) {
+    const dr = 255 - lineArt[pos];
+    const dg = 255 - lineArt[pos + 1];
+    const db = 255 - lineArt[pos + 2];
+    if (dr * dr + dg * dg + db * db < limit) open[i] = 1;
+  }
+  return open;
+};
+
+/**
+ * City-block distance from every region pixel to the nearest pixel outside its region.
+ */
+const regionDistances = (labels: Int32Array, width: number, height: number) => {
+  const distance = new Uint16Array(labels.length);
+  const far = 65535;
+  for (let i = 0; i < labels.length; i++) distance[i] = labels[i] > 0 ? far : 0;
+
+  const relax = (i: number, j: number) => {
+    const step = labels[j] === labels[i] ? distance[j] + 1 : 1;
+    if (step < distance[i]) distance[i] = step;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!distance[i]) continue;
+      if (x > 0) relax(i, i - 1); else distance[i] = 1;
+      if (y > 0) relax(i, i - width); else distance[i] = 1;
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (!distance[i]) continue;
+      if (x < width - 1) relax(i, i + 1); else distance[i] = 1;
+      if (y < height - 1) relax(i, i + width); else distance[i] = 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Pairs of regions separated only by an outline, as keys `a * count + b` with a < b.
+ */
+const findNeighbors = (labels: Int32Array, valid: Uint8Array, width: number, height: number, maxGap: number) => {
+  const neighbors = new Set<number>();
+  const count = valid.length;
+  const look = (from: number, step: number, steps: number) => {
+    const a = labels[from];
+    for (let n = 1; n <= Math.min(maxGap, steps); n++) {
+      const b = labels[from + step * n];
+      if (b === 0) continue;
+      if (b !== a && valid[b]) neighbors.add(a < b ? a * count + b : b * count + a);
+      return;
+    }
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!valid[labels[i]]) continue;
+      if (x < width - 1 && labels[i + 1] === 0) look(i, 1, width - 1 - x);
+      if (y < height - 1 && labels[i + width] === 0) look(i, width, height - 1 - y);
+    }
+  }
+  return neighbors;
+};
+
+/**
+ * Splits a coloring page, as RGBA pixels on white paper, into the regions the
+ * bucket would fill and numbers them, giving neighboring regions different
+ * colors where the palette allows. `scale` is canvas pixels per document unit.
+ * Pure function on raw pixels, see createColorByNumber.
+ */
+export const numberRegions = (
+  lineArt: Uint8ClampedArray,
+  width: number,
+  height: number,
+  scale: number,
+  palette: string[]
+): ColorByNumber => {
+  const count = width * height;
+  const open = findOpenPixels(lineArt, count);
+
+  // Same region logic as the bucket: every connected patch of paper gets a label
+  const labels = new Int32Array(count);
+  let next = 1;
+  for (let i = 0; i < count; i++) {
+    if (!open[i] || labels[i]) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    scanlineFill(open, labels, width, height, x, y, { minX: x, minY: y, maxX: x, maxY: y }, next++);
+  }
+
+  const areas = new Uint32Array(next);
+  for (let i = 0; i < count; i++) areas[labels[i]]++;
+  const minArea = Math.max(MIN_REGION_PIXELS, count * MIN_REGION_SHARE);
+  const valid = new Uint8Array(next);
+  for (let label = 1; label < next; label++) valid[label] = areas[label] >= minArea ? 1 : 0;
+  // Slivers are left out, their pixels count as outline
+  for (let i = 0; i < count; i++) if (!valid[labels[i]]) labels[i] = 0;
+
+  // Numbers go at the point of each region furthest from its edges
+  const distance = regionDistances(labels, width, height);
+  const best = new Int32Array(next).fill(-1);
+  for (let i = 0; i < count; i++) {
+    const label = labels[i];
+    if (label && (best[label] === -1 || distance[i] > distance[best[label]])) best[label] = i;
+  }
+
+  // Greedy coloring, largest regions first, so neighbors differ where possible
+  const neighbors = findNeighbors(labels, valid, width, height, Math.ceil(MAX_LINE_WIDTH * scale));
+  const order = [...valid.keys()].filter((label) => valid[label]).sort((a, b) => areas[b] - areas[a]);
+  const colorIndex = new Int32Array(next).fill(-1);
+  const regions: NumberedRegion[] = [];
+  order.forEach((label, n) => {
+    const taken = new Set<number>();
+    order.forEach((other) => {
+      if (colorIndex[other] === -1) return;
+      const key = label < other ? label * next + other : other * next + label;
+      if (neighbors.has(key)) taken.add(colorIndex[other]);
+    });
+    // Start from a different color each time so the page isn't mostly the first one
+    let index = n % palette.length;
+    for (let k = 0; k < palette.length && taken.has(index); k++) index = (index + 1) % palette.length;
+    colorIndex[label] = index;
+
+    const center = best[label];
+    const cx = center % width;
+    const cy = (center - cx) / width;
+    const size = Math.min(MAX_NUMBER_SIZE, (distance[center] * 1.4) / scale);
+    if (size < MIN_NUMBER_SIZE) return;
+    regions.push({
+      label,
+      number: index + 1,
+      color: palette[index],
+      x: (cx + 0.5) / scale,
+      y: (cy + 0.5) / scale,
+      size,
+    });
+  });
+
+  return { width, height, labels, regions, palette };
+};
+
+/**
+ * Numbers the regions of the coloring page on the line-art layer, see numberRegions.
+ */
+export const createColorByNumber = (
+  lineArtLayer: HTMLCanvasElement,
+  doc: DrawingDocument,
+  palette: string[]
+): ColorByNumber => {
+  const { width, height } = lineArtLayer;
+
+  // The line art is see-through between the lines, flatten it onto white paper
+  const flattened = document.createElement('canvas');
+  flattened.width = width;
+  flattened.height = height;
+  const ctx = flattened.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not read the coloring page');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(lineArtLayer, 0, 0);
+
+  const scale = getDocumentScale(doc, width, height);
+  return numberRegions(ctx.getImageData(0, 0, width, height).data, width, height, scale, palette);
+};
+
+/**
+ * Labels of the regions painted in their own color, given the paint layer's RGBA
+ * pixels. Judged by the color showing on the paper, so see-through paint counts
+ * once it looks right. Pixels are checked on a grid spaced to keep big canvases quick.
+ */
+export const findDoneRegions = (activity: ColorByNumber, paint: Uint8ClampedArray): Set<number> => {
+  const { width, height, labels } = activity;
+  const count = activity.regions.reduce((max, region) => Math.max(max, region.label), 0) + 1;
+  const target = new Int32Array(count * 3).fill(-1);
+  activity.regions.forEach(({ label, color }) => target.set(parseHexColor(color).slice(0, 3), label * 3));
+  const total = new Uint32Array(count);
+  const matching = new Uint32Array(count);
+  const maxDistance = (DEFAULT_FILL_OPTIONS.tolerance / 100) * MAX_COLOR_DISTANCE;
+  const limit = maxDistance * maxDistance;
+  const step = Math.max(1, Math.round(Math.sqrt((width * height) / MAX_CHECKED_PIXELS)));
+
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const i = y * width + x;
+      const label = labels[i];
+      if (label >= count || target[label * 3] === -1) continue;
+      total[label]++;
+      // Paint over white paper
+      const pos = i * 4;
+      const alpha = paint[pos + 3] / 255;
+      const paper = 255 - paint[pos + 3];
+      const dr = paint[pos] * alpha + paper - target[label * 3];
+      const dg = paint[pos + 1] * alpha + paper - target[label * 3 + 1];
+      const db = paint[pos + 2] * alpha + paper - target[label * 3 + 2];
+      if (dr * dr + dg * dg + db * db < limit) matching[label]++;
+    }
+  }
+
+  const done = new Set<number>();
+  // Regions too thin for the grid to land on don't hold up the page
+  activity.regions.forEach(({ label }) => {
+    if (matching[label] >= total[label] * DONE_SHARE) done.add(label);
+  });
+  return done;
+};
+
+/**
+ * Labels of the regions painted in their own color on the paint layer, see findDoneRegions.
+ */
+export const getDoneRegions = (activity: ColorByNumber, paintLayer: HTMLCanvasElement): Set<number> => {
+  const paint = readPixels(paintLayer);
+  if (!paint || paintLayer.width !== activity.width || paintLayer.height !== activity.height) return new Set();
+  return findDoneRegions(activity, paint);
+};
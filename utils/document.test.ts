@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DrawingDocument, ShapeType, StrokeAction, ToolType } from '../types';
+import { DOCUMENT_FORMAT, DOCUMENT_VERSION, createDocument, isValidAction, parseDocument, serializeDocument } from './document';
+
+const stroke: StrokeAction = {
+  type: 'stroke',
+  tool: ToolType.PENCIL,
+  color: '#ef4444',
+  size: 5,
+  points: [{ x: 1, y: 2 }, { x: 3.25, y: 4, pressure: 0.5 }],
+};
+
+const toFile = (data: object) => JSON.stringify({ format: DOCUMENT_FORMAT, version: DOCUMENT_VERSION, width: 800, height: 600, ...data });
+
+describe('isValidAction', () => {
+  it('accepts every kind of action', () => {
+    expect(isValidAction(stroke)).toBe(true);
+    expect(isValidAction({ type: 'fill', x: 10, y: 20, color: '#3b82f680', tolerance: 21 })).toBe(true);
+    expect(
+      isValidAction({
+        type: 'shape',
+        shape: ShapeType.CIRCLE,
+        color: '#000',
+        size: 4,
+        filled: false,
+        start: { x: 0, y: 0 },
+        end: { x: 10, y: 10 },
+      })
+    ).toBe(true);
+    expect(isValidAction({ type: 'stamp', sticker: 'star', color: '#ffcc00', size: 80, x: 5, y: 5 })).toBe(true);
+    expect(isValidAction({ type: 'import', src: 'data:image/png;base64,', layer: 'lineArt' })).toBe(true);
+    expect(isValidAction({ type: 'clear' })).toBe(true);
+  });
+
+  it('rejects colors that are not hex colors', () => {
+    expect(isValidAction({ ...stroke, color: 'red' })).toBe(false);
+    expect(isValidAction({ ...stroke, color: 'ff0000' })).toBe(false);
+    expect(isValidAction({ ...stroke, color: 'url(javascript:alert(1))' })).toBe(false);
+    expect(isValidAction({ type: 'fill', x: 10, y: 20, color: '#12345' })).toBe(false);
+    expect(isValidAction({ type: 'stamp', sticker: 'star', color: 42, size: 80, x: 5, y: 5 })).toBe(false);
+  });
+
+  it('rejects malformed actions', () => {
+    expect(isValidAction(null)).toBe(false);
+    expect(isValidAction('stroke')).toBe(false);
+    expect(isValidAction({ type: 'erase' })).toBe(false);
+    expect(isValidAction({ ...stroke, tool: 'LASER' })).toBe(false);
+    expect(isValidAction({ ...stroke, points: [{ x: 1 }] })).toBe(false);
+    expect(isValidAction({ ...stroke, points: [null] })).toBe(false);
+    expect(isValidAction({ ...stroke, points: [{ x: 1, y: 2, pressure: 'hard' }] })).toBe(false);
+    expect(isValidAction({ ...stroke, brush: 'SPONGE' })).toBe(false);
+    expect(isValidAction({ ...stroke, symmetry: null })).toBe(false);
+    expect(isValidAction({ type: 'fill', x: Infinity, y: 0, color: '#000000' })).toBe(false);
+    expect(isValidAction({ type: 'import', src: 'data:', layer: 'overlay' })).toBe(false);
+  });
+});
+
+describe('parseDocument', () => {
+  it('reads back a serialized document', () => {
+    const doc: DrawingDocument = { ...createDocument(800, 600), actions: [stroke] };
+    const parsed = parseDocument(serializeDocument(doc));
+    expect(parsed.width).toBe(800);
+    expect(parsed.height).toBe(600);
+    expect(parsed.actions).toEqual([{ ...stroke, points: [{ x: 1, y: 2 }, { x: 3.3, y: 4, pressure: 0.5 }] }]);
+  });
+
+  it('rejects files that are not drawings', () => {
+    expect(() => parseDocument('not json')).toThrow('not a Little Picasso drawing');
+    expect(() => parseDocument('null')).toThrow('not a Little Picasso drawing');
+    expect(() => parseDocument(toFile({ format: 'something-else' }))).toThrow('not a Little Picasso drawing');
+  });
+
+  it('rejects drawings from a newer version', () => {
+    expect(() => parseDocument(toFile({ version: DOCUMENT_VERSION + 1, actions: [] }))).toThrow('newer version');
+  });
+
+  it('rejects invalid sizes and damaged actions', () => {
+    expect(() => parseDocument(toFile({ width: 0, actions: [] }))).toThrow('invalid size');
+    expect(() => parseDocument(toFile({ actions: {} }))).toThrow('damaged');
+    expect(() => parseDocument(toFile({ actions: [{ ...stroke, color: 'blue' }] }))).toThrow('damaged');
+  });
+});
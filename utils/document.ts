@@ -0,0 +1,148 @@
+import { BrushPreset, DrawingAction, DrawingDocument, ShapeType, SymmetryMode, ToolType } from '../types';
+import { isHexColor } from './color';
+
+export const DOCUMENT_FORMAT = 'little-picasso';
+export const DOCUMENT_VERSION = 1;
+export const DOCUMENT_FILE_EXTENSION = '.picasso.json';
+
+// Logical size of new drawings, independent of the screen they are drawn on
+export const DOCUMENT_LONG_SIDE = 1600;
+export const DOCUMENT_SHORT_SIDE = 1200;
+
+export const createDocument = (width: number, height: number): DrawingDocument => ({
+  version: DOCUMENT_VERSION,
+  width,
+  height,
+  actions: [],
+});
+
+export const createDefaultDocument = (portrait = false): DrawingDocument =>
+  portrait
+    ? createDocument(DOCUMENT_SHORT_SIDE, DOCUMENT_LONG_SIDE)
+    : createDocument(DOCUMENT_LONG_SIDE, DOCUMENT_SHORT_SIDE);
+
+/**
+ * Serializes a document to the `.picasso.json` file format.
+ * Point coordinates are rounded to one decimal place (pressure to two) to keep files small.
+ */
+export const serializeDocument = (doc: DrawingDocument): string => {
+  const round = (n: number) => Math.round(n * 10) / 10;
+  const actions = doc.actions.map((action) =>
+    action.type === 'stroke'
+      ? {
+          ...action,
+          points: action.points.map((p) =>
+            p.pressure === undefined
+              ? { x: round(p.x), y: round(p.y) }
+              : { x: round(p.x), y: round(p.y), pressure: Math.round(p.pressure * 100) / 100 }
+          ),
+        }
+      : action
+  );
+  return JSON.stringify({
+    format: DOCUMENT_FORMAT,
+    version: doc.version,
+    width: doc.width,
+    height: doc.height,
+    actions,
+  });
+};
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// Whether the value is one of the enum's values
+const isEnumValue = <T>(values: Record<string, T>, value: unknown): value is T =>
+  (Object.values(values) as unknown[]).includes(value);
+
+const isPoint = (p: unknown): p is Record<string, unknown> => isRecord(p) && isNumber(p.x) && isNumber(p.y);
+
+export const isValidAction = (action: unknown): action is DrawingAction => {
+  if (!isRecord(action)) return false;
+  switch (action.type) {
+    case 'stroke':
+      return (
+        isEnumValue(ToolType, action.tool) &&
+        isHexColor(action.color) &&
+        isNumber(action.size) &&
+        Array.isArray(action.points) &&
+        action.points.every((p) => isPoint(p) && (p.pressure === undefined || isNumber(p.pressure))) &&
+        (action.brush === undefined || isEnumValue(BrushPreset, action.brush)) &&
+        (action.seed === undefined || isNumber(action.seed)) &&
+        (action.symmetry === undefined ||
+          (isRecord(action.symmetry) &&
+            isEnumValue(SymmetryMode, action.symmetry.mode) &&
+            isNumber(action.symmetry.segments)))
+      );
+    case 'fill':
+      return (
+        isNumber(action.x) &&
+        isNumber(action.y) &&
+        isHexColor(action.color) &&
+        (action.tolerance === undefined || isNumber(action.tolerance)) &&
+        (action.gapClosing === undefined || isNumber(action.gapClosing))
+      );
+    case 'shape':
+      return (
+        isEnumValue(ShapeType, action.shape) &&
+        isHexColor(action.color) &&
+        isNumber(action.size) &&
+        typeof action.filled === 'boolean' &&
+        isPoint(action.start) &&
+        isPoint(action.end)
+      );
+    case 'stamp':
+      return (
+        typeof action.sticker === 'string' &&
+        isHexColor(action.color) &&
+        isNumber(action.size) &&
+        isNumber(action.x) &&
+        isNumber(action.y)
+      );
+    case 'import':
+      return (
+        typeof action.src === 'string' &&
+        (action.layer === undefined || action.layer === 'paint' || action.layer === 'lineArt')
+      );
+    case 'clear':
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Parses and validates a `.picasso.json` file.
+ * Throws an Error with a human readable message if the file can't be used.
+ */
+export const parseDocument = (text: string): DrawingDocument => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('This file is not a Little Picasso drawing.');
+  }
+
+  if (!isRecord(data) || data.format !== DOCUMENT_FORMAT || !isNumber(data.version)) {
+    throw new Error('This file is not a Little Picasso drawing.');
+  }
+  if (data.version > DOCUMENT_VERSION) {
+    throw new Error('This drawing was made with a newer version of Little Picasso.');
+  }
+  if (!isNumber(data.width) || !isNumber(data.height) || data.width <= 0 || data.height <= 0) {
+    throw new Error('This drawing has an invalid size.');
+  }
+  if (!Array.isArray(data.actions) || !data.actions.every(isValidAction)) {
+    throw new Error('This drawing is damaged and could not be opened.');
+  }
+
+  return {
+    version: DOCUMENT_VERSION,
+    width: data.width,
+    height: data.height,
+    actions: data.actions,
+  };
+};
@@ -0,0 +1,134 @@
+import { DrawingDocument } from '../types';
+import { PaperSize, createImagePdf } from './pdf';
+import { RenderTarget, compositeLayers, loadDocumentImages, renderDocument } from './renderer';
+
+export type ExportFormat = 'png' | 'jpeg' | 'pdf';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Pixels per document unit for PNG and JPEG
+  scale: number;
+  paper: PaperSize;
+  // Only the imported coloring page, blank, for coloring by hand
+  lineArtOnly: boolean;
+}
+
+export const EXPORT_SCALES = [1, 2, 4];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  scale: 2,
+  paper: 'a4',
+  lineArtOnly: false,
+};
+
+// Enough for roughly 300 dpi across a printed page
+const PDF_SCALE = 2;
+// Largest canvas area mobile Safari will draw into
+const MAX_EXPORT_PIXELS = 4096 * 4096;
+
+const EXTENSIONS: Record<ExportFormat, string> = { png: '.png', jpeg: '.jpg', pdf: '.pdf' };
+
+/**
+ * Picture of the coloring page the document ends up with on the line-art layer, or null if there is none.
+ */
+export const getLineArtSource = (doc: DrawingDocument): string | null => {
+  let source: string | null = null;
+  doc.actions.forEach((action) => {
+    if (action.type === 'clear') source = null;
+    if (action.type === 'import') source = (action.layer ?? 'lineArt') === 'lineArt' ? action.src : null;
+  });
+  return source;
+};
+
+/**
+ * True if the document ends up with an imported coloring page on the line-art layer.
+ */
+export const hasLineArt = (doc: DrawingDocument) => getLineArtSource(doc) !== null;
+
+const createLayer = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Pixel size of a picture exported at `scale` pixels per document unit, and the
+ * scale actually used. The size is capped so the canvas stays drawable on mobile browsers.
+ */
+export const getExportSize = (doc: Pick<DrawingDocument, 'width' | 'height'>, scale: number) => {
+  const limit = Math.sqrt(MAX_EXPORT_PIXELS / (doc.width * doc.height));
+  const pixelScale = Math.min(scale, limit);
+  return {
+    width: Math.max(1, Math.round(doc.width * pixelScale)),
+    height: Math.max(1, Math.round(doc.height * pixelScale)),
+    scale: pixelScale,
+  };
+};
+
+/**
+ * Renders the document at `scale` pixels per document unit, independent of the
+ * screen, and flattens it onto white paper, at the size from getExportSize.
+ */
+export const renderForExport = async (
+  doc: DrawingDocument,
+  scale: number,
+  lineArtOnly = false
+): Promise<HTMLCanvasElement> => {
+  const { width, height, scale: pixelScale } = getExportSize(doc, scale);
+
+  const paint = createLayer(width, height);
+  const lineArt = createLayer(width, height);
+  const paintCtx = paint.getContext('2d', { willReadFrequently: true });
+  const lineArtCtx = lineArt.getContext('2d');
+  if (!paintCtx || !lineArtCtx) throw new Error('Your drawing could not be exported.');
+
+  const target: RenderTarget = {
+    paintCtx,
+    lineArtCtx,
+    scale: pixelScale,
+    docWidth: doc.width,
+    docHeight: doc.height,
+    images: await loadDocumentImages(doc),
+  };
+  renderDocument(target, doc);
+
+  if (lineArtOnly) paintCtx.clearRect(0, 0, width, height);
+  return compositeLayers(paint, lineArt);
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Your drawing could not be exported.'))),
+      type,
+      quality
+    );
+  });
+
+/**
+ * Renders the document into a file in the chosen format, entirely in the browser.
+ */
+export const exportDocument = async (doc: DrawingDocument, options: ExportOptions): Promise<Blob> => {
+  const scale = options.format === 'pdf' ? PDF_SCALE : options.scale;
+  const canvas = await renderForExport(doc, scale, options.lineArtOnly);
+
+  switch (options.format) {
+    case 'png':
+      return canvasToBlob(canvas, 'image/png');
+    case 'jpeg':
+      return canvasToBlob(canvas, 'image/jpeg', 0.92);
+    case 'pdf': {
+      const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+      return createImagePdf(jpeg, canvas.width, canvas.height, options.paper);
+    }
+  }
+};
+
+const getBaseFileName = (name: string) => name.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'little-picasso-art';
+
+export const getExportFileName = (name: string, options: ExportOptions) =>
+  `${getBaseFileName(name)}${options.lineArtOnly ? '-coloring-page' : ''}${EXTENSIONS[options.format]}`;
+
+export const getReplayFileName = (name: string) => `${getBaseFileName(name)}-replay.gif`;
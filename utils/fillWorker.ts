@@ -0,0 +1,44 @@
+import { FillOptions, FillRegion, findFillRegion } from './floodFill';
+import { WorkerRequest, WorkerResponse, createWorkerClient } from './workerClient';
+
+export interface FillWorkerRequest extends WorkerRequest {
+  sample: Uint8ClampedArray;
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  color: string;
+  options: FillOptions;
+}
+
+export interface FillWorkerResponse extends WorkerResponse {
+  region: FillRegion | null;
+}
+
+const requestFromWorker = createWorkerClient<FillWorkerRequest, FillWorkerResponse>(
+  'Fill',
+  () => new Worker(new URL('./floodFill.worker.ts', import.meta.url), { type: 'module' })
+);
+
+/**
+ * Finds a fill region off the main thread so big canvases don't freeze the UI.
+ * The boundary pixels are transferred to the worker, so the ImageData can't be
+ * used afterwards. Falls back to the main thread where workers aren't available,
+ * and rejects if the worker fails so the caller can retry there.
+ */
+export const requestFillRegion = (
+  boundary: ImageData,
+  x: number,
+  y: number,
+  color: string,
+  options: FillOptions
+): Promise<FillRegion | null> => {
+  const response = requestFromWorker(
+    { sample: boundary.data, width: boundary.width, height: boundary.height, x, y, color, options },
+    [boundary.data.buffer]
+  );
+  if (!response) {
+    return Promise.resolve(findFillRegion(boundary.data, boundary.width, boundary.height, x, y, color, options));
+  }
+  return response.then(({ region }) => region);
+};
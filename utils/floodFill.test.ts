@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILL_OPTIONS, findFillRegion } from './floodFill';
+
+/**
+ * RGBA pixels from rows of characters: `.` white paper, `#` black outline and
+ * digits for grays, `0` being 0x00 and `9` 0xe1 (225).
+ */
+const image = (rows: string[]) => {
+  const width = rows[0].length;
+  const data = new Uint8ClampedArray(width * rows.length * 4);
+  rows.forEach((row, y) =>
+    [...row].forEach((char, x) => {
+      const value = char === '.' ? 255 : char === '#' ? 0 : Number(char) * 25;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    })
+  );
+  return { data, width, height: rows.length };
+};
+
+const filled = (mask: Uint8Array, width: number, x: number, y: number) => mask[y * width + x] === 1;
+
+// A box with a 2px gap in its top wall
+const OPEN_BOX = [
+  '............',
+  '............',
+  '..###..###..',
+  '..#......#..',
+  '..#......#..',
+  '..#......#..',
+  '..#......#..',
+  '..#......#..',
+  '..#......#..',
+  '..########..',
+  '............',
+  '............',
+];
+
+describe('findFillRegion', () => {
+  it('stays inside a closed shape', () => {
+    const { data, width, height } = image([
+      '........',
+      '.######.',
+      '.#....#.',
+      '.#....#.',
+      '.######.',
+      '........',
+    ]);
+    const region = findFillRegion(data, width, height, 3, 2, '#ef4444');
+    expect(region?.rect).toEqual({ x: 2, y: 2, width: 4, height: 2 });
+    expect(region?.mask.reduce((sum, value) => sum + value, 0)).toBe(8);
+    expect(filled(region!.mask, width, 0, 0)).toBe(false);
+    expect(filled(region!.mask, width, 1, 1)).toBe(false);
+  });
+
+  it('spreads into colors within the tolerance only', () => {
+    // 8 is 200, about 95 away from white; 7 is 175, about 139 away
+    const { data, width, height } = image(['..8..7..']);
+    const loose = findFillRegion(data, width, height, 0, 0, '#ef4444', { ...DEFAULT_FILL_OPTIONS, tolerance: 21 });
+    expect(loose?.rect).toEqual({ x: 0, y: 0, width: 5, height: 1 });
+
+    const strict = findFillRegion(data, width, height, 0, 0, '#ef4444', { ...DEFAULT_FILL_OPTIONS, tolerance: 10 });
+    expect(strict?.rect).toEqual({ x: 0, y: 0, width: 2, height: 1 });
+
+    // Zero tolerance still fills the exact color
+    const exact = findFillRegion(data, width, height, 0, 0, '#ef4444', { ...DEFAULT_FILL_OPTIONS, tolerance: 0 });
+    expect(exact?.rect).toEqual({ x: 0, y: 0, width: 2, height: 1 });
+  });
+
+  it('leaks through a gap without gap closing', () => {
+    const { data, width, height } = image(OPEN_BOX);
+    const region = findFillRegion(data, width, height, 5, 5, '#ef4444');
+    expect(filled(region!.mask, width, 0, 0)).toBe(true);
+  });
+
+  it('seals a small gap with gap closing and still reaches the outline', () => {
+    const { data, width, height } = image(OPEN_BOX);
+    const region = findFillRegion(data, width, height, 5, 5, '#ef4444', { ...DEFAULT_FILL_OPTIONS, gapClosing: 2 });
+    expect(filled(region!.mask, width, 0, 0)).toBe(false);
+    expect(filled(region!.mask, width, 5, 1)).toBe(false);
+    // Grown back out to the walls
+    expect(filled(region!.mask, width, 3, 5)).toBe(true);
+    expect(filled(region!.mask, width, 8, 6)).toBe(true);
+    expect(filled(region!.mask, width, 5, 8)).toBe(true);
+  });
+
+  it('does nothing when the start already has the fill color', () => {
+    const { data, width, height } = image(['....', '....']);
+    expect(findFillRegion(data, width, height, 1, 1, '#ffffff')).toBeNull();
+    expect(findFillRegion(data, width, height, 1, 1, '#fff')).toBeNull();
+  });
+});
@@ -1,83 +1,276 @@
+import { Rect } from '../types';
+import { parseHexColor } from './color';
+
+export interface FillOptions {
+  // Percentage (0-100) of the largest possible color difference that still counts as the same region
+  tolerance: number;
+  // Openings in outlines up to this many pixels wide are treated as closed
+  gapClosing: number;
+}
+
+// Roughly 20% visual difference, enough to eat into the anti-aliased edges of
+// black lines (preventing the "white halo" artifact) but not into the lines themselves.
+export const DEFAULT_FILL_OPTIONS: FillOptions = {
+  tolerance: 21,
+  gapClosing: 0,
+};
+
+export interface FillRegion {
+  // One byte per canvas pixel, 1 where the fill color goes
+  mask: Uint8Array;
+  width: number;
+  rect: Rect;
+}
+
+// Largest distance between two RGBA colors
+const MAX_COLOR_DISTANCE = 510;
+
 /**
- * Performs a flood fill on the canvas context.
- * This is a CPU-intensive operation, so we use an iterative stack-based approach
- * to avoid recursion depth limits.
+ * Grows the set pixels of a mask by `radius` in every direction (square kernel).
+ * Runs as two separable passes, so the cost doesn't depend on the radius.
  */
-export const floodFill = (
-  ctx: CanvasRenderingContext2D,
+export const dilate = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  const horizontal = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let last = -Infinity;
+    for (let x = 0; x < width; x++) {
+      if (mask[row + x]) last = x;
+      if (x - last <= radius) horizontal[row + x] = 1;
+    }
+    let next = Infinity;
+    for (let x = width - 1; x >= 0; x--) {
+      if (mask[row + x]) next = x;
+      if (next - x <= radius) horizontal[row + x] = 1;
+    }
+  }
+
+  const out = new Uint8Array(mask.length);
+  for (let x = 0; x < width; x++) {
+    let last = -Infinity;
+    for (let y = 0; y < height; y++) {
+      if (horizontal[y * width + x]) last = y;
+      if (y - last <= radius) out[y * width + x] = 1;
+    }
+    let next = Infinity;
+    for (let y = height - 1; y >= 0; y--) {
+      if (horizontal[y * width + x]) next = y;
+      if (next - y <= radius) out[y * width + x] = 1;
+    }
+  }
+  return out;
+};
+
+/**
+ * Scanline fill of the connected `open` pixels around the start point, writing
+ * `label` into the unset pixels of `mask`. Each iteration fills a whole horizontal
+ * span and only queues one seed per span on the rows above and below, instead
+ * of one entry per pixel.
+ */
+export const scanlineFill = (
+  open: Uint8Array,
+  mask: Uint8Array | Int32Array,
+  width: number,
+  height: number,
   startX: number,
   startY: number,
-  fillColorHex: string,
-  width: number,
-  height: number
+  bounds: { minX: number; minY: number; maxX: number; maxY: number },
+  label = 1
 ) => {
-  // 1. Get image data
-  const imageData = ctx.getImageData(0, 0, width, height);
-  const data = imageData.data;
+  const canFill = (index: number) => open[index] === 1 && mask[index] === 0;
+  const stack: number[] = [startX, startY];
+
+  while (stack.length > 0) {
+    const y = stack.pop()!;
+    const x = stack.pop()!;
+    const row = y * width;
+    if (!canFill(row + x)) continue;
+
+    let left = x;
+    while (left > 0 && canFill(row + left - 1)) left--;
+    let right = x;
+    while (right < width - 1 && canFill(row + right + 1)) right++;
 
-  // 2. Parse fill color
-  const hex = fillColorHex.replace('#', '');
-  const r = parseInt(hex.substring(0, 2), 16);
-  const g = parseInt(hex.substring(2, 4), 16);
-  const b = parseInt(hex.substring(4, 6), 16);
-  const a = 255;
+    mask.fill(label, row + left, row + right + 1);
+    if (left < bounds.minX) bounds.minX = left;
+    if (right > bounds.maxX) bounds.maxX = right;
+    if (y < bounds.minY) bounds.minY = y;
+    if (y > bounds.maxY) bounds.maxY = y;
 
-  // 3. Get target color at start position
+    for (const ny of [y - 1, y + 1]) {
+      if (ny < 0 || ny >= height) continue;
+      const nRow = ny * width;
+      let inSpan = false;
+      for (let i = left; i <= right; i++) {
+        if (canFill(nRow + i)) {
+          if (!inSpan) {
+            stack.push(i, ny);
+            inSpan = true;
+          }
+        } else {
+          inSpan = false;
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Finds the region a fill starting at (startX, startY) would cover.
+ * Pure function on raw pixels so it can run inside a Web Worker.
+ * Returns null if the region already has the fill color.
+ */
+export const findFillRegion = (
+  sample: Uint8ClampedArray,
+  width: number,
+  height: number,
+  startX: number,
+  startY: number,
+  fillColorHex: string,
+  options: FillOptions = DEFAULT_FILL_OPTIONS
+): FillRegion | null => {
+  const [r, g, b, a] = parseHexColor(fillColorHex);
+
+  // Get target color at start position
   const startPos = (startY * width + startX) * 4;
-  const startR = data[startPos];
-  const startG = data[startPos + 1];
-  const startB = data[startPos + 2];
-  const startA = data[startPos + 3];
+  const startR = sample[startPos];
+  const startG = sample[startPos + 1];
+  const startB = sample[startPos + 2];
+  const startA = sample[startPos + 3];
 
   // Optimization: If clicking on the same color, do nothing
   if (startR === r && startG === g && startB === b && startA === a) {
-    return;
+    return null;
   }
 
-  // Tolerance helper (for anti-aliased lines)
-  // We use a much higher tolerance (roughly 20% visual difference) to eat into
-  // the anti-aliased edges of black lines, preventing the "white halo" artifact.
-  const matchColor = (pos: number) => {
-    const dr = data[pos] - startR;
-    const dg = data[pos + 1] - startG;
-    const db = data[pos + 2] - startB;
-    const da = data[pos + 3] - startA;
-    // Squared distance. 
-    // Old value: 2000. 
-    // New value: 12000 (allows filling into darker grays if starting from white, but not black).
-    return (dr * dr + dg * dg + db * db + da * da) < 12000; 
-  };
+  // Mark every pixel close enough to the start color (squared distance)
+  const maxDistance = (Math.max(0, options.tolerance) / 100) * MAX_COLOR_DISTANCE;
+  const limit = maxDistance * maxDistance;
+  const passable = new Uint8Array(width * height);
+  for (let i = 0, pos = 0; i < passable.length; i++, pos += 4) {
+    const dr = sample[pos] - startR;
+    const dg = sample[pos + 1] - startG;
+    const db = sample[pos + 2] - startB;
+    const da = sample[pos + 3] - startA;
+    if (dr * dr + dg * dg + db * db + da * da <= limit) passable[i] = 1;
+  }
 
-  const colorPixel = (pos: number) => {
-    data[pos] = r;
-    data[pos + 1] = g;
-    data[pos + 2] = b;
-    data[pos + 3] = a;
+  // Gap closing: thicken the outlines so small openings are sealed, fill, then
+  // grow the result back out to the real outlines.
+  const radius = Math.ceil(Math.max(0, options.gapClosing) / 2);
+  let open = passable;
+  if (radius > 0) {
+    const walls = passable.map((p) => 1 - p);
+    open = dilate(walls, width, height, radius).map((w) => 1 - w);
+    // Tapped inside a spot thinner than the gap size, fill it without gap closing
+    if (!open[startY * width + startX]) open = passable;
+  }
+
+  const mask = new Uint8Array(width * height);
+  const bounds = { minX: startX, minY: startY, maxX: startX, maxY: startY };
+  scanlineFill(open, mask, width, height, startX, startY, bounds);
+
+  if (open !== passable) {
+    // Grow one pixel per step through passable pixels only, so the fill
+    // reaches the outlines again without jumping over them.
+    for (let step = 0; step < radius; step++) {
+      const x0 = Math.max(0, bounds.minX - 1);
+      const x1 = Math.min(width - 1, bounds.maxX + 1);
+      const y0 = Math.max(0, bounds.minY - 1);
+      const y1 = Math.min(height - 1, bounds.maxY + 1);
+      const grown: number[] = [];
+      for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+          const i = y * width + x;
+          if (mask[i] || !passable[i]) continue;
+          if (
+            (x > 0 && mask[i - 1]) ||
+            (x < width - 1 && mask[i + 1]) ||
+            (y > 0 && mask[i - width]) ||
+            (y < height - 1 && mask[i + width])
+          ) {
+            grown.push(i);
+          }
+        }
+      }
+      if (grown.length === 0) break;
+      grown.forEach((i) => (mask[i] = 1));
+      bounds.minX = x0;
+      bounds.maxX = x1;
+      bounds.minY = y0;
+      bounds.maxY = y1;
+    }
+  }
+
+  return {
+    mask,
+    width,
+    rect: {
+      x: bounds.minX,
+      y: bounds.minY,
+      width: bounds.maxX - bounds.minX + 1,
+      height: bounds.maxY - bounds.minY + 1,
+    },
   };
+};
+
+/**
+ * Writes the fill color into the region's pixels, touching only its bounding rect.
+ * See-through colors are laid over the paint already there, like a marker.
+ */
+export const applyFillRegion = (ctx: CanvasRenderingContext2D, region: FillRegion, fillColorHex: string) => {
+  const { mask, width, rect } = region;
+  const [r, g, b, a] = parseHexColor(fillColorHex);
+  const imageData = ctx.getImageData(rect.x, rect.y, rect.width, rect.height);
+  const data = imageData.data;
 
-  // 4. Stack based fill
-  const stack: [number, number][] = [[startX, startY]];
-  const seen = new Uint8Array(width * height); // keep track of visited pixels to prevent loops
+  const alpha = a / 255;
 
-  while (stack.length > 0) {
-    const [x, y] = stack.pop()!;
-    const pixelIndex = y * width + x;
-    const pos = pixelIndex * 4;
-
-    if (x < 0 || x >= width || y < 0 || y >= height) continue;
-    if (seen[pixelIndex]) continue;
-    
-    if (matchColor(pos)) {
-      colorPixel(pos);
-      seen[pixelIndex] = 1;
-
-      stack.push([x + 1, y]);
-      stack.push([x - 1, y]);
-      stack.push([x, y + 1]);
-      stack.push([x, y - 1]);
+  for (let y = 0; y < rect.height; y++) {
+    const row = (rect.y + y) * width + rect.x;
+    for (let x = 0; x < rect.width; x++) {
+      if (!mask[row + x]) continue;
+      const pos = (y * rect.width + x) * 4;
+      if (a === 255) {
+        data[pos] = r;
+        data[pos + 1] = g;
+        data[pos + 2] = b;
+        data[pos + 3] = 255;
+        continue;
+      }
+      // Source-over on unpremultiplied pixels
+      const below = (data[pos + 3] / 255) * (1 - alpha);
+      const out = alpha + below;
+      data[pos] = (r * alpha + data[pos] * below) / out;
+      data[pos + 1] = (g * alpha + data[pos + 1] * below) / out;
+      data[pos + 2] = (b * alpha + data[pos + 2] * below) / out;
+      data[pos + 3] = out * 255;
     }
   }
 
-  // 5. Put image data back
-  ctx.putImageData(imageData, 0, 0);
-};
\ No newline at end of file
+  ctx.putImageData(imageData, rect.x, rect.y);
+};
+
+/**
+ * Performs a flood fill on the canvas context, synchronously on the calling thread.
+ * If a boundary image is given, regions are found in it while the pixels are
+ * written to the context, so outlines on another layer can stop the fill.
+ * Returns the bounding rect of the filled pixels, or null if nothing changed.
+ */
+export const floodFill = (
+  ctx: CanvasRenderingContext2D,
+  startX: number,
+  startY: number,
+  fillColorHex: string,
+  width: number,
+  height: number,
+  boundary?: ImageData,
+  options: FillOptions = DEFAULT_FILL_OPTIONS
+): Rect | null => {
+  const sample = boundary ? boundary.data : ctx.getImageData(0, 0, width, height).data;
+  const region = findFillRegion(sample, width, height, startX, startY, fillColorHex, options);
+  if (!region) return null;
+
+  applyFillRegion(ctx, region, fillColorHex);
+  return region.rect;
+};
@@ -0,0 +1,13 @@
+import { findFillRegion } from './floodFill';
+import type { FillWorkerRequest, FillWorkerResponse } from './fillWorker';
+
+self.onmessage = (e: MessageEvent<FillWorkerRequest>) => {
+  const { id, sample, width, height, x, y, color, options } = e.data;
+  let response: FillWorkerResponse;
+  try {
+    response = { id, region: findFillRegion(sample, width, height, x, y, color, options) };
+  } catch (error) {
+    response = { id, region: null, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response, { transfer: response.region ? [response.region.mask.buffer] : [] });
+};
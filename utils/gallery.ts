@@ -0,0 +1,260 @@
+import { DrawingDocument } from '../types';
+import { createDefaultDocument, parseDocument, serializeDocument } from './document';
+import { compositeLayers } from './renderer';
+
+const DB_NAME = 'little-picasso';
+const DB_VERSION = 1;
+// Gallery cards: name, dates and thumbnail, small enough to list all at once
+const DRAWINGS_STORE = 'drawings';
+// Serialized documents, keyed by drawing id, only read when a drawing is opened
+const DOCUMENTS_STORE = 'documents';
+// Key-value app settings, such as the drawing state and the open drawing
+const SETTINGS_STORE = 'settings';
+
+// Keys used before the gallery existed, moved into IndexedDB on first run
+const LEGACY_CANVAS_KEY = 'little-picasso-canvas';
+const LEGACY_STATE_KEY = 'little-picasso-state';
+
+export const SETTING_DRAWING_STATE = 'drawingState';
+export const SETTING_CURRENT_DRAWING = 'currentDrawingId';
+export const SETTING_PROVIDER = 'providerSettings';
+export const SETTING_MAGIC_IMPORT = 'magicImportOptions';
+export const SETTING_PARENTAL = 'parentalSettings';
+export const SETTING_SESSION = 'drawingSession';
+export const SETTING_COLLAB = 'collabSettings';
+export const SETTING_PALETTES = 'paletteSettings';
+const SETTING_MIGRATED = 'migratedFromLocalStorage';
+
+// Longest side of a gallery thumbnail in pixels
+const THUMBNAIL_SIZE = 320;
+
+export interface DrawingSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // JPEG data URL of the drawing as last saved
+  thumbnail: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * Turns storage failures into messages that can be shown to the user.
+ */
+const toStorageError = (error: unknown): Error => {
+  if (isQuotaError(error)) {
+    return new Error('There is no room left to save drawings. Delete some old ones in the gallery.');
+  }
+  return new Error('Your drawing could not be saved in this browser.');
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Drawings cannot be saved in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DRAWINGS_STORE)) db.createObjectStore(DRAWINGS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) db.createObjectStore(DOCUMENTS_STORE);
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) db.createObjectStore(SETTINGS_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error('Drawings cannot be saved in this browser.'));
+    }).catch((e) => {
+      // Let a later call try again
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs `body` in a transaction and resolves once it has been committed.
+ * Rejects with a readable Error, including when the storage quota is exceeded.
+ */
+const withTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  body: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  // Handled below, this only keeps an early failure from being reported as unhandled
+  done.catch(() => undefined);
+  try {
+    const result = await body(tx);
+    await done;
+    return result;
+  } catch (e) {
+    try {
+      tx.abort();
+    } catch {
+      // Already finished
+    }
+    throw mode === 'readwrite' ? toStorageError(e) : e;
+  }
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const listDrawings = (): Promise<DrawingSummary[]> =>
+  withTransaction([DRAWINGS_STORE], 'readonly', async (tx) => {
+    const drawings = await promisifyRequest<DrawingSummary[]>(tx.objectStore(DRAWINGS_STORE).getAll());
+    return drawings.sort((a, b) => b.updatedAt - a.updatedAt);
+  });
+
+/**
+ * Reads a drawing's document. Throws if it's missing or damaged.
+ */
+export const loadDrawing = async (id: string): Promise<DrawingDocument> => {
+  const text = await withTransaction([DOCUMENTS_STORE], 'readonly', (tx) =>
+    promisifyRequest<string | undefined>(tx.objectStore(DOCUMENTS_STORE).get(id))
+  );
+  if (typeof text !== 'string') throw new Error('This drawing could not be found.');
+  return parseDocument(text);
+};
+
+export const createDrawing = (
+  name: string,
+  doc: DrawingDocument,
+  thumbnail: string | null = null
+): Promise<DrawingSummary> => {
+  const now = Date.now();
+  const summary: DrawingSummary = { id: createId(), name, createdAt: now, updatedAt: now, thumbnail };
+  return withTransaction([DRAWINGS_STORE, DOCUMENTS_STORE], 'readwrite', (tx) => {
+    tx.objectStore(DRAWINGS_STORE).put(summary);
+    tx.objectStore(DOCUMENTS_STORE).put(serializeDocument(doc), summary.id);
+    return summary;
+  });
+};
+
+/**
+ * Stores the latest version of a drawing and bumps its modification date.
+ */
+export const saveDrawing = (id: string, doc: DrawingDocument, thumbnail: string | null) =>
+  withTransaction([DRAWINGS_STORE, DOCUMENTS_STORE], 'readwrite', async (tx) => {
+    const drawings = tx.objectStore(DRAWINGS_STORE);
+    const summary = await promisifyRequest<DrawingSummary | undefined>(drawings.get(id));
+    if (!summary) return;
+    drawings.put({ ...summary, updatedAt: Date.now(), thumbnail: thumbnail ?? summary.thumbnail });
+    tx.objectStore(DOCUMENTS_STORE).put(serializeDocument(doc), id);
+  });
+
+export const renameDrawing = (id: string, name: string) =>
+  withTransaction([DRAWINGS_STORE], 'readwrite', async (tx) => {
+    const drawings = tx.objectStore(DRAWINGS_STORE);
+    const summary = await promisifyRequest<DrawingSummary | undefined>(drawings.get(id));
+    if (summary) drawings.put({ ...summary, name });
+  });
+
+export const duplicateDrawing = async (id: string): Promise<DrawingSummary> => {
+  const drawings = await listDrawings();
+  const original = drawings.find((drawing) => drawing.id === id);
+  if (!original) throw new Error('This drawing could not be found.');
+  return createDrawing(`${original.name} (copy)`, await loadDrawing(id), original.thumbnail);
+};
+
+export const deleteDrawing = (id: string) =>
+  withTransaction([DRAWINGS_STORE, DOCUMENTS_STORE], 'readwrite', (tx) => {
+    tx.objectStore(DRAWINGS_STORE).delete(id);
+    tx.objectStore(DOCUMENTS_STORE).delete(id);
+  });
+
+export const loadSetting = <T>(key: string): Promise<T | undefined> =>
+  withTransaction([SETTINGS_STORE], 'readonly', (tx) =>
+    promisifyRequest<T | undefined>(tx.objectStore(SETTINGS_STORE).get(key))
+  );
+
+export const saveSetting = (key: string, value: unknown) =>
+  withTransaction([SETTINGS_STORE], 'readwrite', (tx) => {
+    tx.objectStore(SETTINGS_STORE).put(value, key);
+  });
+
+/**
+ * Name for a new drawing that isn't taken yet, "Drawing 1", "Drawing 2"...
+ */
+export const getNextDrawingName = (drawings: DrawingSummary[]) => {
+  const names = new Set(drawings.map((drawing) => drawing.name));
+  let n = drawings.length + 1;
+  while (names.has(`Drawing ${n}`)) n++;
+  return `Drawing ${n}`;
+};
+
+/**
+ * Moves the drawing and settings that older versions kept in localStorage into
+ * the gallery. Runs once, the localStorage keys are removed once they're stored.
+ */
+export const migrateLocalStorage = async () => {
+  if (await loadSetting<boolean>(SETTING_MIGRATED)) return;
+
+  const savedCanvas = localStorage.getItem(LEGACY_CANVAS_KEY);
+  if (savedCanvas) {
+    let doc: DrawingDocument | null = null;
+    if (savedCanvas.startsWith('data:image')) {
+      // The oldest versions saved a flat PNG, keep it as paint so it stays editable
+      doc = createDefaultDocument();
+      doc.actions.push({ type: 'import', src: savedCanvas, layer: 'paint' });
+    } else {
+      try {
+        doc = parseDocument(savedCanvas);
+      } catch (e) {
+        console.error('Failed to migrate saved drawing', e);
+      }
+    }
+    if (doc) {
+      const summary = await createDrawing('My Drawing', doc);
+      await saveSetting(SETTING_CURRENT_DRAWING, summary.id);
+    }
+  }
+
+  const savedState = localStorage.getItem(LEGACY_STATE_KEY);
+  if (savedState) {
+    try {
+      await saveSetting(SETTING_DRAWING_STATE, JSON.parse(savedState));
+    } catch (e) {
+      console.error('Failed to migrate saved settings', e);
+    }
+  }
+
+  await saveSetting(SETTING_MIGRATED, true);
+  localStorage.removeItem(LEGACY_CANVAS_KEY);
+  localStorage.removeItem(LEGACY_STATE_KEY);
+};
+
+/**
+ * Small JPEG of the layers as they appear on screen, for the gallery cards.
+ */
+export const createThumbnail = (paint: HTMLCanvasElement, lineArt: HTMLCanvasElement): string | null => {
+  if (paint.width === 0 || paint.height === 0) return null;
+  const ratio = Math.min(1, THUMBNAIL_SIZE / Math.max(paint.width, paint.height));
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = Math.max(1, Math.round(paint.width * ratio));
+  thumbnail.height = Math.max(1, Math.round(paint.height * ratio));
+  const ctx = thumbnail.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(compositeLayers(paint, lineArt), 0, 0, thumbnail.width, thumbnail.height);
+  return thumbnail.toDataURL('image/jpeg', 0.8);
+};
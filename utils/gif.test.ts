@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { buildPalette, createGifEncoder } from './gif';
+
+/**
+ * 256 colors that land in different 5-bit buckets, so every pixel painted in one
+ * of them is encoded as exactly that palette index.
+ */
+const DISTINCT_PALETTE = Uint8Array.from({ length: 256 * 3 }, (_, n) => {
+  const i = Math.floor(n / 3);
+  const channel = n % 3;
+  if (channel === 0) return (i & 7) * 32 + 4;
+  if (channel === 1) return ((i >> 3) & 7) * 32 + 4;
+  return ((i >> 6) & 3) * 64 + 4;
+});
+
+const pixelsOf = (indices: number[], palette: Uint8Array) => {
+  const rgba = new Uint8ClampedArray(indices.length * 4);
+  indices.forEach((index, i) => rgba.set([palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2], 255], i * 4));
+  return rgba;
+};
+
+const text = (bytes: Uint8Array, start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length));
+const short = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+
+interface Frame {
+  delay: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  minCodeSize: number;
+  data: Uint8Array;
+}
+
+/**
+ * Reads the parts of a GIF the encoder writes, checking the fixed ones on the way.
+ */
+const readGif = (bytes: Uint8Array) => {
+  expect(text(bytes, 0, 6)).toBe('GIF89a');
+  const width = short(bytes, 6);
+  const height = short(bytes, 8);
+  // Global color table of 256 entries
+  expect(bytes[10]).toBe(0xf7);
+  let offset = 13 + 256 * 3;
+  expect([bytes[offset], bytes[offset + 1], bytes[offset + 2]]).toEqual([0x21, 0xff, 11]);
+  expect(text(bytes, offset + 3, 11)).toBe('NETSCAPE2.0');
+  offset += 19;
+
+  const frames: Frame[] = [];
+  while (bytes[offset] === 0x21) {
+    expect([bytes[offset + 1], bytes[offset + 2]]).toEqual([0xf9, 4]);
+    const delay = short(bytes, offset + 4) * 10;
+    offset += 8;
+    expect(bytes[offset]).toBe(0x2c);
+    const frame = {
+      delay,
+      left: short(bytes, offset + 1),
+      top: short(bytes, offset + 3),
+      width: short(bytes, offset + 5),
+      height: short(bytes, offset + 7),
+      minCodeSize: bytes[offset + 10],
+    };
+    offset += 11;
+    const blocks: number[] = [];
+    while (bytes[offset] !== 0) {
+      blocks.push(...bytes.subarray(offset + 1, offset + 1 + bytes[offset]));
+      offset += bytes[offset] + 1;
+    }
+    offset++;
+    frames.push({ ...frame, data: Uint8Array.from(blocks) });
+  }
+  expect(bytes[offset]).toBe(0x3b);
+  expect(offset).toBe(bytes.length - 1);
+  return { width, height, frames };
+};
+
+/**
+ * Decodes GIF LZW data the way browsers do. Also counts the clear codes.
+ */
+const decodeLzw = (data: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table: number[][] = [];
+  const reset = () => {
+    table = Array.from({ length: clearCode }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    nextCode = endCode + 1;
+  };
+  reset();
+
+  const output: number[] = [];
+  let clears = 0;
+  let previous: number[] | null = null;
+  let bit = 0;
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+
+    if (code === clearCode) {
+      clears++;
+      reset();
+      previous = null;
+      continue;
+    }
+    if (code === endCode) break;
+    let entry: number[];
+    if (code < nextCode && table[code]) entry = table[code];
+    else if (code === nextCode && previous) entry = [...previous, previous[0]];
+    else throw new Error(`Unexpected code ${code}`);
+    output.push(...entry);
+    if (previous && nextCode < 4096) {
+      table[nextCode++] = [...previous, entry[0]];
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+  return { indices: output, clears };
+};
+
+const encode = async (width: number, height: number, frames: number[][], palette = DISTINCT_PALETTE) => {
+  const encoder = createGifEncoder(width, height, palette);
+  frames.forEach((indices) => encoder.addFrame(pixelsOf(indices, palette), 100));
+  return readGif(new Uint8Array(await encoder.finish().arrayBuffer()));
+};
+
+describe('createGifEncoder', () => {
+  it('writes a small frame that decodes back to its pixels', async () => {
+    const indices = [0, 0, 1, 1, 0, 0, 1, 1, 2, 2, 2, 2];
+    const gif = await encode(4, 3, [indices]);
+    expect(gif.width).toBe(4);
+    expect(gif.height).toBe(3);
+    expect(gif.frames).toHaveLength(1);
+
+    const [frame] = gif.frames;
+    expect(frame).toMatchObject({ delay: 100, left: 0, top: 0, width: 4, height: 3, minCodeSize: 8 });
+    expect(decodeLzw(frame.data, frame.minCodeSize)).toEqual({ indices, clears: 1 });
+  });
+
+  it('starts the code table over once all 4096 codes are used', async () => {
+    // Random pixels add a new code nearly every pixel
+    let seed = 1;
+    const random = () => (seed = (Math.imul(seed, 1103515245) + 12345) >>> 0) >>> 24;
+    const indices = Array.from({ length: 96 * 96 }, random);
+    const [frame] = (await encode(96, 96, [indices])).frames;
+
+    const decoded = decodeLzw(frame.data, frame.minCodeSize);
+    expect(decoded.clears).toBeGreaterThan(1);
+    expect(decoded.indices).toEqual(indices);
+  });
+
+  it('stores only what changed and stretches unchanged frames', async () => {
+    const first = new Array(16).fill(3);
+    const second = [...first];
+    second[9] = 7;
+    second[10] = 7;
+    const gif = await encode(4, 4, [first, second, second]);
+
+    expect(gif.frames).toHaveLength(2);
+    expect(gif.frames[1]).toMatchObject({ delay: 200, left: 1, top: 2, width: 2, height: 1 });
+    expect(decodeLzw(gif.frames[1].data, 8).indices).toEqual([7, 7]);
+  });
+});
+
+describe('buildPalette', () => {
+  it('keeps the colors of a picture with only a few', () => {
+    const palette = buildPalette(pixelsOf([0, 0, 9, 9, 200, 200], DISTINCT_PALETTE));
+    const colors = [0, 1, 2].map((i) => [...palette.subarray(i * 3, i * 3 + 3)]);
+    expect(colors).toEqual(expect.arrayContaining([[4, 4, 4], [36, 36, 4], [4, 36, 196]]));
+  });
+});
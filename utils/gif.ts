@@ -0,0 +1,324 @@
+// GIF palettes hold at most 256 colors
+const MAX_COLORS = 256;
+
+// Colors are grouped at 5 bits per channel for the palette and the color lookup
+const CHANNEL_BITS = 5;
+const CHANNEL_SHIFT = 8 - CHANNEL_BITS;
+
+// LZW codes are at most 12 bits wide
+const MAX_CODE = 4096;
+
+const colorKey = (r: number, g: number, b: number) =>
+  ((r >> CHANNEL_SHIFT) << (CHANNEL_BITS * 2)) | ((g >> CHANNEL_SHIFT) << CHANNEL_BITS) | (b >> CHANNEL_SHIFT);
+
+interface ColorBox {
+  // Histogram keys in this box
+  keys: number[];
+  count: number;
+}
+
+const keyChannel = (key: number, channel: number) =>
+  (key >> (CHANNEL_BITS * (2 - channel))) & ((1 << CHANNEL_BITS) - 1);
+
+/**
+ * Picks up to 256 colors that represent the picture well, by median cut over
+ * a histogram of its pixels. Returns RGB triples.
+ */
+export const buildPalette = (rgba: Uint8ClampedArray): Uint8Array => {
+  const histogram = new Uint32Array(1 << (CHANNEL_BITS * 3));
+  for (let i = 0; i < rgba.length; i += 4) {
+    histogram[colorKey(rgba[i], rgba[i + 1], rgba[i + 2])]++;
+  }
+  const keys: number[] = [];
+  histogram.forEach((count, key) => {
+    if (count > 0) keys.push(key);
+  });
+
+  const boxes: ColorBox[] = [{ keys, count: rgba.length / 4 }];
+  while (boxes.length < MAX_COLORS) {
+    // Split the most populated box that still has more than one color
+    let index = -1;
+    boxes.forEach((box, i) => {
+      if (box.keys.length > 1 && (index === -1 || box.count > boxes[index].count)) index = i;
+    });
+    if (index === -1) break;
+    const box = boxes[index];
+
+    // Along the channel with the widest range, at the weighted median
+    let channel = 0;
+    let widest = -1;
+    for (let c = 0; c < 3; c++) {
+      let min = Infinity;
+      let max = -Infinity;
+      box.keys.forEach((key) => {
+        const v = keyChannel(key, c);
+        if (v < min) min = v;
+        if (v > max) max = v;
+      });
+      if (max - min > widest) {
+        widest = max - min;
+        channel = c;
+      }
+    }
+    box.keys.sort((a, b) => keyChannel(a, channel) - keyChannel(b, channel));
+    let seen = 0;
+    let split = 1;
+    for (; split < box.keys.length - 1; split++) {
+      seen += histogram[box.keys[split - 1]];
+      if (seen >= box.count / 2) break;
+    }
+    const left = box.keys.slice(0, split);
+    const right = box.keys.slice(split);
+    const sum = (list: number[]) => list.reduce((total, key) => total + histogram[key], 0);
+    boxes.splice(index, 1, { keys: left, count: sum(left) }, { keys: right, count: sum(right) });
+  }
+
+  const palette = new Uint8Array(MAX_COLORS * 3);
+  boxes.forEach((box, i) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    box.keys.forEach((key) => {
+      const weight = histogram[key];
+      // Middle of the 5-bit bucket
+      r += ((keyChannel(key, 0) << CHANNEL_SHIFT) + 4) * weight;
+      g += ((keyChannel(key, 1) << CHANNEL_SHIFT) + 4) * weight;
+      b += ((keyChannel(key, 2) << CHANNEL_SHIFT) + 4) * weight;
+    });
+    const count = Math.max(1, box.count);
+    palette[i * 3] = Math.round(r / count);
+    palette[i * 3 + 1] = Math.round(g / count);
+    palette[i * 3 + 2] = Math.round(b / count);
+  });
+  return palette;
+};
+
+/**
+ * Growable byte buffer, GIF files are written front to back.
+ */
+const createByteWriter = () => {
+  let bytes = new Uint8Array(64 * 1024);
+  let length = 0;
+  const ensure = (extra: number) => {
+    if (length + extra <= bytes.length) return;
+    const grown = new Uint8Array(Math.max(bytes.length * 2, length + extra));
+    grown.set(bytes.subarray(0, length));
+    bytes = grown;
+  };
+  return {
+    byte(value: number) {
+      ensure(1);
+      bytes[length++] = value;
+    },
+    short(value: number) {
+      ensure(2);
+      bytes[length++] = value & 0xff;
+      bytes[length++] = (value >> 8) & 0xff;
+    },
+    bytes(values: ArrayLike<number>) {
+      ensure(values.length);
+      bytes.set(values, length);
+      length += values.length;
+    },
+    text(value: string) {
+      for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+    },
+    // Overwrites a little-endian 16-bit value written earlier
+    patchShort(offset: number, value: number) {
+      bytes[offset] = value & 0xff;
+      bytes[offset + 1] = (value >> 8) & 0xff;
+    },
+    get length() {
+      return length;
+    },
+    result: () => bytes.slice(0, length),
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+/**
+ * Writes palette indices as GIF image data: LZW codes packed into sub-blocks.
+ */
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const codes = new Map<number, number>();
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bits & 0xff;
+      bits >>>= 8;
+      bitCount -= 8;
+      if (blockLength === 255) {
+        out.byte(255);
+        out.bytes(block);
+        blockLength = 0;
+      }
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = codes.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      // Table full, start over
+      emit(clearCode);
+      codes.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      codes.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) emit(0);
+
+  if (blockLength > 0) {
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+  }
+  out.byte(0);
+};
+
+/**
+ * Writes an animated GIF frame by frame, so long animations don't have to be
+ * kept in memory. All frames share one palette, see buildPalette. Frames are
+ * RGBA pixels of the full picture, only the part that changed is stored.
+ */
+export const createGifEncoder = (width: number, height: number, palette: Uint8Array) => {
+  const out = createByteWriter();
+  // Nearest palette entry for each 5-bit color, -1 until first needed
+  const lookup = new Int16Array(1 << (CHANNEL_BITS * 3)).fill(-1);
+  let previous: Uint8Array | null = null;
+  // Where the delay of the last frame was written, so an unchanged frame can extend it
+  let lastDelayOffset = -1;
+  let lastDelay = 0;
+
+  const nearest = (r: number, g: number, b: number) => {
+    const key = colorKey(r, g, b);
+    let index = lookup[key];
+    if (index === -1) {
+      let best = Infinity;
+      for (let i = 0; i < MAX_COLORS; i++) {
+        const dr = palette[i * 3] - r;
+        const dg = palette[i * 3 + 1] - g;
+        const db = palette[i * 3 + 2] - b;
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < best) {
+          best = distance;
+          index = i;
+        }
+      }
+      lookup[key] = index;
+    }
+    return index;
+  };
+
+  out.text('GIF89a');
+  out.short(width);
+  out.short(height);
+  // Global color table of 256 entries at 8 bits per channel
+  out.byte(0xf7);
+  out.byte(0);
+  out.byte(0);
+  out.bytes(palette);
+  // Loop forever
+  out.byte(0x21);
+  out.byte(0xff);
+  out.byte(11);
+  out.text('NETSCAPE2.0');
+  out.bytes([3, 1, 0, 0, 0]);
+
+  return {
+    /**
+     * Adds a frame shown for `delay` milliseconds.
+     */
+    addFrame(rgba: Uint8ClampedArray, delay: number) {
+      const indices = new Uint8Array(width * height);
+      for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+        indices[i] = nearest(rgba[p], rgba[p + 1], rgba[p + 2]);
+      }
+
+      // Smallest rectangle that differs from the previous frame
+      let left = 0;
+      let top = 0;
+      let right = width - 1;
+      let bottom = height - 1;
+      if (previous) {
+        left = width;
+        top = height;
+        right = -1;
+        bottom = -1;
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            if (indices[i] === previous[i]) continue;
+            if (x < left) left = x;
+            if (x > right) right = x;
+            if (y < top) top = y;
+            if (y > bottom) bottom = y;
+          }
+        }
+        if (right === -1) {
+          // Nothing changed, show the last frame for longer
+          lastDelay += delay;
+          out.patchShort(lastDelayOffset, Math.round(lastDelay / 10));
+          return;
+        }
+      }
+      previous = indices;
+
+      // Graphic control extension: keep the previous frame underneath
+      out.byte(0x21);
+      out.byte(0xf9);
+      out.byte(4);
+      out.byte(0x04);
+      lastDelayOffset = out.length;
+      lastDelay = delay;
+      out.short(Math.round(delay / 10));
+      out.byte(0);
+      out.byte(0);
+
+      const frameWidth = right - left + 1;
+      const frameHeight = bottom - top + 1;
+      out.byte(0x2c);
+      out.short(left);
+      out.short(top);
+      out.short(frameWidth);
+      out.short(frameHeight);
+      out.byte(0);
+
+      const region = new Uint8Array(frameWidth * frameHeight);
+      for (let y = 0; y < frameHeight; y++) {
+        region.set(indices.subarray((top + y) * width + left, (top + y) * width + left + frameWidth), y * frameWidth);
+      }
+      writeLzw(out, region, 8);
+    },
+
+    finish(): Blob {
+      out.byte(0x3b);
+      return new Blob([out.result()], { type: 'image/gif' });
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { DrawingAction } from '../types';
+import { PixelPatch, createHistory } from './history';
+
+const fill = (color: string): DrawingAction => ({ type: 'fill', x: 0, y: 0, color });
+
+// Only the pixel bytes matter to the history, Node has no ImageData
+const patchOf = (pixels: Uint8ClampedArray): PixelPatch => ({
+  x: 0,
+  y: 0,
+  data: { data: pixels.slice(), width: pixels.length / 4, height: 1 } as ImageData,
+});
+
+describe('createHistory', () => {
+  it('drops the oldest patches once over budget but keeps every step', () => {
+    const history = createHistory(100);
+    const entries = [0, 1, 2].map((n) => ({ action: fill(`#00000${n}`), patch: patchOf(new Uint8ClampedArray(40)) }));
+    entries.forEach((entry) => history.push(entry));
+
+    expect(entries.map((entry) => entry.patch !== null)).toEqual([false, true, true]);
+    expect(history.undo()?.patch).not.toBeNull();
+    expect(history.undo()?.patch).not.toBeNull();
+    expect(history.undo()).toEqual({ action: fill('#000000'), patch: null });
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('round-trips pixels through undo and redo', () => {
+    const history = createHistory();
+    const pixels = new Uint8ClampedArray([255, 255, 255, 255, 255, 255, 255, 255]);
+    const before = pixels.slice();
+    const paint = () => pixels.set([239, 68, 68, 255], 4);
+
+    // Draw: keep the pixels about to change, then change them
+    history.push({ action: fill('#ef4444'), patch: patchOf(pixels) });
+    paint();
+    const after = pixels.slice();
+
+    const entry = history.undo();
+    pixels.set(entry!.patch!.data.data);
+    expect(pixels).toEqual(before);
+    expect(history.canRedo()).toBe(true);
+
+    // Redo replays the action and records it again without dropping later redos
+    const action = history.redo();
+    expect(action).toEqual(fill('#ef4444'));
+    history.push({ action: action!, patch: patchOf(pixels) }, false);
+    paint();
+    expect(pixels).toEqual(after);
+    expect(history.canUndo()).toBe(true);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('clears the redo stack when something new is drawn', () => {
+    const history = createHistory();
+    history.push({ action: fill('#000001'), patch: null });
+    history.push({ action: fill('#000002'), patch: null });
+    history.undo();
+    history.undo();
+    expect(history.canRedo()).toBe(true);
+
+    history.push({ action: fill('#000003'), patch: null }, false);
+    expect(history.canRedo()).toBe(true);
+    history.push({ action: fill('#000004'), patch: null });
+    expect(history.canRedo()).toBe(false);
+    expect(history.redo()).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { DrawingAction } from '../types';
+
+export const DEFAULT_HISTORY_BUDGET = 32 * 1024 * 1024; // 32 MB of pixel data
+
+export interface PixelPatch {
+  x: number;
+  y: number;
+  // Pixels of the dirty rect from before the action was applied
+  data: ImageData;
+}
+
+export interface HistoryEntry {
+  action: DrawingAction;
+  // Without a patch the action is undone by replaying the document
+  patch: PixelPatch | null;
+}
+
+export interface CommandHistory {
+  push: (entry: HistoryEntry, clearRedo?: boolean) => void;
+  undo: () => HistoryEntry | null;
+  redo: () => DrawingAction | null;
+  clear: () => void;
+  dropPatches: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+}
+
+const patchSize = (patch: PixelPatch | null) => (patch ? patch.data.data.byteLength : 0);
+
+/**
+ * Undo/redo history of drawing actions.
+ * Each undo entry keeps only the pixels its action changed. When those pixels exceed
+ * the memory budget, the oldest entries drop their patch and fall back to replaying
+ * the document, so undo never loses steps. Redo entries only keep the action itself.
+ */
+export const createHistory = (memoryBudget: number = DEFAULT_HISTORY_BUDGET): CommandHistory => {
+  let undoStack: HistoryEntry[] = [];
+  let redoStack: DrawingAction[] = [];
+  let usedBytes = 0;
+
+  const enforceBudget = () => {
+    for (let i = 0; i < undoStack.length && usedBytes > memoryBudget; i++) {
+      const entry = undoStack[i];
+      if (!entry.patch) continue;
+      usedBytes -= patchSize(entry.patch);
+      entry.patch = null;
+    }
+  };
+
+  return {
+    push: (entry, clearRedo = true) => {
+      undoStack.push(entry);
+      usedBytes += patchSize(entry.patch);
+      if (clearRedo) redoStack = [];
+      enforceBudget();
+    },
+    undo: () => {
+      const entry = undoStack.pop();
+      if (!entry) return null;
+      usedBytes -= patchSize(entry.patch);
+      redoStack.push(entry.action);
+      return entry;
+    },
+    redo: () => redoStack.pop() ?? null,
+    clear: () => {
+      undoStack = [];
+      redoStack = [];
+      usedBytes = 0;
+    },
+    // Patches are tied to the canvas pixel size, call this when it changes
+    dropPatches: () => {
+      undoStack.forEach((entry) => (entry.patch = null));
+      usedBytes = 0;
+    },
+    canUndo: () => undoStack.length > 0,
+    canRedo: () => redoStack.length > 0,
+  };
+};
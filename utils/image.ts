@@ -0,0 +1,228 @@
+// Bigger files are almost always raw camera shots, far more than a coloring page needs
+const MAX_FILE_SIZE = 25 * 1024 * 1024;
+
+// Decoding more pixels than this can run a tablet out of memory
+const MAX_PIXELS = 50_000_000;
+
+// Longest side of the photo shown in the crop step
+const MAX_PREVIEW_DIMENSION = 2048;
+
+// Longest side of the photo sent for conversion, enough detail for a coloring page
+export const MAX_UPLOAD_DIMENSION = 1024;
+
+// Type and quality photos are re-encoded with before conversion
+const UPLOAD_MIME_TYPE = 'image/jpeg';
+const UPLOAD_QUALITY = 0.9;
+
+// Enough of the file to find the EXIF block and the JPEG frame header
+const HEADER_BYTES = 256 * 1024;
+
+export type ImageErrorReason = 'unsupported' | 'too-large' | 'unreadable';
+
+/**
+ * Why a photo can't be imported. `message` is written for kids.
+ */
+export class ImageError extends Error {
+  readonly reason: ImageErrorReason;
+
+  constructor(reason: ImageErrorReason, message: string) {
+    super(message);
+    this.name = 'ImageError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Part of a photo, as fractions of its width and height.
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreparedImage {
+  dataUrl: string;
+  mimeType: string;
+}
+
+interface ImageInfo {
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  // EXIF orientation, 1 when the photo is stored upright
+  orientation: number;
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (text: string) => [...text].map((c) => c.charCodeAt(0));
+
+/**
+ * Works out the real type of a picture from its first bytes, the file name
+ * and the type reported by the browser can't be trusted.
+ * Returns null for anything that isn't a supported picture.
+ */
+export const detectImageType = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, ascii('GIF8'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(bytes, ascii('BM'))) return 'image/bmp';
+  return null;
+};
+
+const readExifOrientation = (view: DataView, start: number, length: number): number => {
+  // "Exif\0\0" followed by a TIFF header
+  if (view.getUint32(start) !== 0x45786966 || view.getUint16(start + 4) !== 0) return 1;
+  const tiff = start + 6;
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  if (ifd + 2 > start + length) return 1;
+  const entries = view.getUint16(ifd, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > start + length) break;
+    if (view.getUint16(entry, little) === 0x0112) {
+      const orientation = view.getUint16(entry + 8, little);
+      return orientation >= 1 && orientation <= 8 ? orientation : 1;
+    }
+  }
+  return 1;
+};
+
+const readJpegInfo = (bytes: Uint8Array): ImageInfo => {
+  const info: ImageInfo = { mimeType: 'image/jpeg', width: null, height: null, orientation: 1 };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  try {
+    while (offset + 4 <= bytes.length) {
+      if (bytes[offset] !== 0xff) break;
+      const marker = bytes[offset + 1];
+      // Start of scan, the headers are over
+      if (marker === 0xda) break;
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xe1) {
+        info.orientation = readExifOrientation(view, offset + 4, length - 2);
+      } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        info.height = view.getUint16(offset + 5);
+        info.width = view.getUint16(offset + 7);
+      }
+      offset += 2 + length;
+    }
+  } catch (e) {
+    // Cut off by the header slice or damaged, keep what was found
+  }
+  return info;
+};
+
+const readImageInfo = (bytes: Uint8Array, mimeType: string): ImageInfo => {
+  if (mimeType === 'image/jpeg') return readJpegInfo(bytes);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (mimeType === 'image/png' && bytes.length >= 24) {
+    return { mimeType, width: view.getUint32(16), height: view.getUint32(20), orientation: 1 };
+  }
+  if (mimeType === 'image/gif' && bytes.length >= 10) {
+    return { mimeType, width: view.getUint16(6, true), height: view.getUint16(8, true), orientation: 1 };
+  }
+  return { mimeType, width: null, height: null, orientation: 1 };
+};
+
+/**
+ * Whether the browser already turned the photo upright while decoding it.
+ * Rotations show up in the decoded size, flips can only be guessed from
+ * support for the matching CSS feature.
+ */
+const isOrientationApplied = (info: ImageInfo, bitmap: ImageBitmap) => {
+  if (info.orientation >= 5 && info.width !== null && info.width !== info.height) {
+    return bitmap.width === info.height;
+  }
+  return typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+};
+
+// Maps a photo stored in `orientation` onto an upright canvas, w and h are the stored size
+const applyOrientation = (ctx: CanvasRenderingContext2D, orientation: number, w: number, h: number) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+  }
+};
+
+/**
+ * Checks and decodes a photo picked by the user. The result is upright,
+ * on a white background and no larger than needed for the crop step.
+ * Throws an ImageError for pictures that can't be used.
+ */
+export const loadPhoto = async (file: File): Promise<HTMLCanvasElement> => {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new ImageError('too-large', 'Whoa, that photo is too big! Try a smaller one.');
+  }
+
+  const bytes = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const mimeType = detectImageType(bytes);
+  if (!mimeType) {
+    throw new ImageError('unsupported', "The magic wand can't read this kind of picture. Try a photo instead!");
+  }
+  const info = readImageInfo(bytes, mimeType);
+  if (info.width !== null && info.height !== null && info.width * info.height > MAX_PIXELS) {
+    throw new ImageError('too-large', 'Whoa, that photo is too big! Try a smaller one.');
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (e) {
+    throw new ImageError('unreadable', 'This picture seems to be broken. Try another one!');
+  }
+
+  try {
+    const orientation = isOrientationApplied(info, bitmap) ? 1 : info.orientation;
+    const ratio = Math.min(1, MAX_PREVIEW_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const w = Math.max(1, Math.round(bitmap.width * ratio));
+    const h = Math.max(1, Math.round(bitmap.height * ratio));
+    const rotated = orientation >= 5;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = rotated ? h : w;
+    canvas.height = rotated ? w : h;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new ImageError('unreadable', 'This picture seems to be broken. Try another one!');
+
+    // Transparent parts of the photo become paper
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    applyOrientation(ctx, orientation, w, h);
+    ctx.drawImage(bitmap, 0, 0, w, h);
+    return canvas;
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Cuts out the chosen part of a loaded photo, shrinks it for upload and
+ * re-encodes it as JPEG.
+ */
+export const preparePhoto = (photo: HTMLCanvasElement, crop: CropRect | null = null): PreparedImage => {
+  const sx = crop ? Math.round(crop.x * photo.width) : 0;
+  const sy = crop ? Math.round(crop.y * photo.height) : 0;
+  const sw = Math.max(1, crop ? Math.round(crop.width * photo.width) : photo.width);
+  const sh = Math.max(1, crop ? Math.round(crop.height * photo.height) : photo.height);
+  const ratio = Math.min(1, MAX_UPLOAD_DIMENSION / Math.max(sw, sh));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sw * ratio));
+  canvas.height = Math.max(1, Math.round(sh * ratio));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new ImageError('unreadable', 'This picture seems to be broken. Try another one!');
+  ctx.drawImage(photo, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  return { dataUrl: canvas.toDataURL(UPLOAD_MIME_TYPE, UPLOAD_QUALITY), mimeType: UPLOAD_MIME_TYPE };
+};
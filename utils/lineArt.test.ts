@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LINE_ART_OPTIONS, traceLineArt } from './lineArt';
+
+const WIDTH = 24;
+const HEIGHT = 16;
+
+// Only edge detection, no closing, thickening or cleanup
+const EDGES_ONLY = { ...DEFAULT_LINE_ART_OPTIONS, closeGaps: 0, lineWidth: 1, minSpeckle: 0, minRegion: 0 };
+
+/**
+ * RGBA pixels dark where `isDark` holds and light elsewhere.
+ */
+const picture = (isDark: (x: number, y: number) => boolean) => {
+  const rgba = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const value = isDark(x, y) ? 40 : 220;
+      rgba.set([value, value, value, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return rgba;
+};
+
+/**
+ * The traced page as rows of characters, `#` for ink and `.` for paper.
+ */
+const rowsOf = (page: Uint8ClampedArray) =>
+  Array.from({ length: HEIGHT }, (_, y) =>
+    Array.from({ length: WIDTH }, (_, x) => (page[(y * WIDTH + x) * 4] === 0 ? '#' : '.')).join('')
+  );
+
+const inkedColumns = (row: string) => [...row].flatMap((char, x) => (char === '#' ? [x] : []));
+
+describe('traceLineArt', () => {
+  it.each([0, 1, DEFAULT_LINE_ART_OPTIONS.blur])('outlines a vertical step with a one pixel line (blur %d)', (blur) => {
+    const rows = rowsOf(traceLineArt(picture((x) => x < 12), WIDTH, HEIGHT, { ...EDGES_ONLY, blur }));
+    // The border rows have no gradient
+    rows.slice(1, -1).forEach((row) => {
+      const columns = inkedColumns(row);
+      expect(columns).toHaveLength(1);
+      expect(Math.abs(columns[0] - 11.5)).toBeLessThan(1);
+    });
+    expect(new Set(rows.slice(1, -1)).size).toBe(1);
+  });
+
+  it('outlines a horizontal step with a one pixel line', () => {
+    const rows = rowsOf(traceLineArt(picture((_, y) => y < 8), WIDTH, HEIGHT, { ...EDGES_ONLY, blur: 0 }));
+    const inked = rows.flatMap((row, y) => (row.includes('#') ? [y] : []));
+    expect(inked).toHaveLength(1);
+    expect(rows[inked[0]].slice(1, -1)).toBe('#'.repeat(WIDTH - 2));
+    expect(Math.abs(inked[0] - 7.5)).toBeLessThan(1);
+  });
+
+  it('leaves a flat picture blank', () => {
+    const page = traceLineArt(picture(() => false), WIDTH, HEIGHT);
+    expect(rowsOf(page).join('')).not.toContain('#');
+  });
+});
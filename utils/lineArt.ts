@@ -0,0 +1,247 @@
+import { dilate } from './floodFill';
+
+export interface LineArtOptions {
+  // Gaussian blur before edge detection, higher ignores more texture
+  blur: number;
+  // Most pixels (share 0-1 of the picture) that count as strong edges, the weak threshold is derived from it
+  edgeAmount: number;
+  // Edge fragments with fewer pixels than this are dropped
+  minSpeckle: number;
+  // Openings in outlines up to this many pixels wide are closed
+  closeGaps: number;
+  // Thickness of the final outlines in pixels
+  lineWidth: number;
+  // Enclosed areas smaller than this are inked in, they'd be too small to color
+  minRegion: number;
+}
+
+export const DEFAULT_LINE_ART_OPTIONS: LineArtOptions = {
+  blur: 2,
+  edgeAmount: 0.04,
+  minSpeckle: 30,
+  closeGaps: 6,
+  lineWidth: 3,
+  minRegion: 150,
+};
+
+// Weak edges are kept if they connect to a strong one (Canny hysteresis)
+const WEAK_EDGE_RATIO = 0.4;
+// Strong edges are never weaker than this share of the strongest one, so flat noisy pictures stay clean
+const MIN_STRONG_EDGE = 0.2;
+
+const toGrayscale = (rgba: Uint8ClampedArray, size: number): Float32Array => {
+  const gray = new Float32Array(size);
+  for (let i = 0, pos = 0; i < size; i++, pos += 4) {
+    // Transparent pixels count as white paper
+    const alpha = rgba[pos + 3] / 255;
+    const luma = 0.299 * rgba[pos] + 0.587 * rgba[pos + 1] + 0.114 * rgba[pos + 2];
+    gray[i] = luma * alpha + 255 * (1 - alpha);
+  }
+  return gray;
+};
+
+/**
+ * Separable Gaussian blur, edges are clamped.
+ */
+const gaussianBlur = (src: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  if (sigma <= 0) return src;
+  const radius = Math.ceil(sigma * 3);
+  const kernel = new Float32Array(radius * 2 + 1);
+  let sum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    sum += kernel[i + radius];
+  }
+  kernel.forEach((k, i) => (kernel[i] = k / sum));
+
+  const horizontal = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let value = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        value += src[row + sx] * kernel[k + radius];
+      }
+      horizontal[row + x] = value;
+    }
+  }
+
+  const out = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        value += horizontal[sy * width + x] * kernel[k + radius];
+      }
+      out[y * width + x] = value;
+    }
+  }
+  return out;
+};
+
+/**
+ * Canny edge detection: Sobel gradients, thinning to one pixel by non-maximum
+ * suppression, then hysteresis between a strong and a weak threshold.
+ * Thresholds adapt to the picture so that at most `edgeAmount` of its pixels
+ * count as strong edges.
+ */
+const detectEdges = (gray: Float32Array, width: number, height: number, edgeAmount: number): Uint8Array => {
+  const size = width * height;
+  const magnitude = new Float32Array(size);
+  const direction = new Uint8Array(size);
+  let max = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        -gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1] +
+        gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1];
+      const gy =
+        -gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1] +
+        gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1];
+      const m = Math.hypot(gx, gy);
+      magnitude[i] = m;
+      if (m > max) max = m;
+      // Quantize the gradient angle to 0°, 45°, 90° or 135°
+      const angle = ((Math.atan2(gy, gx) * 180) / Math.PI + 180) % 180;
+      direction[i] = angle < 22.5 || angle >= 157.5 ? 0 : angle < 67.5 ? 1 : angle < 112.5 ? 2 : 3;
+    }
+  }
+  if (max === 0) return new Uint8Array(size);
+
+  // Non-maximum suppression, keep only the ridge of each edge. Ties go to the
+  // later pixel so a sharp step, whose ridge is two pixels wide, stays one wide
+  const thin = new Float32Array(size);
+  const offsets = [1, width + 1, width, width - 1];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const m = magnitude[i];
+      const offset = offsets[direction[i]];
+      if (m >= magnitude[i - offset] && m > magnitude[i + offset]) thin[i] = m;
+    }
+  }
+
+  // Adaptive thresholds from a histogram of the remaining edge strengths
+  const bins = 256;
+  const histogram = new Uint32Array(bins);
+  for (let i = 0; i < size; i++) {
+    if (thin[i] > 0) histogram[Math.min(bins - 1, Math.floor((thin[i] / max) * bins))]++;
+  }
+  let strongCount = 0;
+  let bin = bins - 1;
+  while (bin > 0 && strongCount + histogram[bin] <= size * edgeAmount) strongCount += histogram[bin--];
+  const high = Math.max(((bin + 1) / bins) * max, MIN_STRONG_EDGE * max);
+  const low = high * WEAK_EDGE_RATIO;
+
+  // Hysteresis, grow from strong edges through connected weak ones
+  const edges = new Uint8Array(size);
+  const stack: number[] = [];
+  for (let i = 0; i < size; i++) {
+    if (thin[i] >= high && !edges[i]) {
+      edges[i] = 1;
+      stack.push(i);
+      while (stack.length > 0) {
+        const p = stack.pop()!;
+        const px = p % width;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = px + dx;
+            const n = p + dy * width + dx;
+            if (nx < 0 || nx >= width || n < 0 || n >= size || edges[n]) continue;
+            if (thin[n] >= low) {
+              edges[n] = 1;
+              stack.push(n);
+            }
+          }
+        }
+      }
+    }
+  }
+  return edges;
+};
+
+/**
+ * Sets connected groups of `value` pixels smaller than `minSize` to the other value.
+ * Used both to drop speckles and to ink in regions too small to color.
+ */
+const removeSmallComponents = (mask: Uint8Array, width: number, height: number, value: 0 | 1, minSize: number) => {
+  if (minSize <= 1) return;
+  const visited = new Uint8Array(mask.length);
+  const component: number[] = [];
+  const stack: number[] = [];
+  // Lines connect diagonally, regions don't leak through diagonal gaps
+  const diagonal = value === 1;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (visited[start] || mask[start] !== value) continue;
+    component.length = 0;
+    visited[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      component.push(p);
+      const px = p % width;
+      const py = (p - px) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx === 0 && dy === 0) || (!diagonal && dx !== 0 && dy !== 0)) continue;
+          const nx = px + dx;
+          const ny = py + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (visited[n] || mask[n] !== value) continue;
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    if (component.length < minSize) component.forEach((p) => (mask[p] = 1 - value));
+  }
+};
+
+const invert = (mask: Uint8Array) => mask.map((v) => 1 - v);
+
+/**
+ * Turns a photo into a coloring page: black outlines on white.
+ * Pure function on raw pixels so it can run inside a Web Worker.
+ *
+ * Grayscale, blur, Canny edges, despeckle, then a morphological closing joins
+ * outline ends that nearly touch so regions can be flood filled, and the lines
+ * are thickened to a crayon-friendly width.
+ */
+export const traceLineArt = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: LineArtOptions = DEFAULT_LINE_ART_OPTIONS
+): Uint8ClampedArray => {
+  const size = width * height;
+  const gray = gaussianBlur(toGrayscale(rgba, size), width, height, options.blur);
+  let lines = detectEdges(gray, width, height, options.edgeAmount);
+  removeSmallComponents(lines, width, height, 1, options.minSpeckle);
+
+  // Closing: grow the lines so nearby ends meet, then shrink them back
+  const closeRadius = Math.ceil(Math.max(0, options.closeGaps) / 2);
+  if (closeRadius > 0) {
+    lines = dilate(lines, width, height, closeRadius);
+    lines = invert(dilate(invert(lines), width, height, closeRadius));
+  }
+
+  const thickenRadius = Math.floor(Math.max(0, options.lineWidth - 1) / 2);
+  if (thickenRadius > 0) lines = dilate(lines, width, height, thickenRadius);
+  removeSmallComponents(lines, width, height, 0, options.minRegion);
+
+  const out = new Uint8ClampedArray(size * 4);
+  for (let i = 0, pos = 0; i < size; i++, pos += 4) {
+    const v = lines[i] ? 0 : 255;
+    out[pos] = v;
+    out[pos + 1] = v;
+    out[pos + 2] = v;
+    out[pos + 3] = 255;
+  }
+  return out;
+};
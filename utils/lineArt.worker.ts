@@ -0,0 +1,13 @@
+import { traceLineArt } from './lineArt';
+import type { LineArtWorkerRequest, LineArtWorkerResponse } from './lineArtWorker';
+
+self.onmessage = (e: MessageEvent<LineArtWorkerRequest>) => {
+  const { id, pixels, width, height, options } = e.data;
+  let response: LineArtWorkerResponse;
+  try {
+    response = { id, pixels: traceLineArt(pixels, width, height, options) };
+  } catch (error) {
+    response = { id, pixels: null, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response, { transfer: response.pixels ? [response.pixels.buffer] : [] });
+};
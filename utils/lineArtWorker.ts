@@ -0,0 +1,38 @@
+import { LineArtOptions, traceLineArt } from './lineArt';
+import { WorkerRequest, WorkerResponse, createWorkerClient } from './workerClient';
+
+export interface LineArtWorkerRequest extends WorkerRequest {
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+  options: LineArtOptions;
+}
+
+export interface LineArtWorkerResponse extends WorkerResponse {
+  pixels: Uint8ClampedArray | null;
+}
+
+const requestFromWorker = createWorkerClient<LineArtWorkerRequest, LineArtWorkerResponse>(
+  'Line art',
+  () => new Worker(new URL('./lineArt.worker.ts', import.meta.url), { type: 'module' })
+);
+
+/**
+ * Traces line art off the main thread, a photo takes long enough to freeze the UI.
+ * The source pixels are transferred to the worker, so the ImageData can't be
+ * used afterwards. Falls back to the main thread where workers aren't available,
+ * and rejects if the worker fails so the caller can retry there.
+ */
+export const requestLineArt = (image: ImageData, options: LineArtOptions): Promise<Uint8ClampedArray> => {
+  const response = requestFromWorker(
+    { pixels: image.data, width: image.width, height: image.height, options },
+    [image.data.buffer]
+  );
+  if (!response) {
+    return Promise.resolve(traceLineArt(image.data, image.width, image.height, options));
+  }
+  return response.then(({ pixels }) => {
+    if (!pixels) throw new Error('Line art failed');
+    return pixels;
+  });
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BASIC_PALETTE_ID,
+  DEFAULT_PALETTE_SETTINGS,
+  MAX_RECENT_COLORS,
+  MAX_SAVED_PALETTES,
+  PaletteSettings,
+  addRecentColor,
+  normalizePaletteSettings,
+} from './palettes';
+
+// Storage hands back whatever was saved, which may not match the current shape
+const normalize = (saved: unknown) => normalizePaletteSettings(saved as Partial<PaletteSettings>);
+
+describe('normalizePaletteSettings', () => {
+  it('uses the defaults when nothing was saved', () => {
+    expect(normalize(undefined)).toEqual(DEFAULT_PALETTE_SETTINGS);
+    expect(normalize({})).toEqual(DEFAULT_PALETTE_SETTINGS);
+  });
+
+  it('keeps valid settings', () => {
+    const saved = {
+      paletteId: 'saved-1',
+      recentColors: ['#ef4444', '#3b82f6'],
+      savedPalettes: [{ id: 'saved-1', name: 'My Colors 1', colors: ['#ef4444'] }],
+    };
+    expect(normalize(saved)).toEqual(saved);
+    expect(normalize({ paletteId: 'neon' }).paletteId).toBe('neon');
+  });
+
+  it('keeps only hex colors, solid and without repeats', () => {
+    const settings = normalize({ recentColors: ['#EF4444', 'red', 'a855f7', 7, '#ef444480', '#3b82f6', null] });
+    expect(settings.recentColors).toEqual(['#ef4444', '#3b82f6']);
+  });
+
+  it('drops palettes that are malformed or have no colors', () => {
+    const settings = normalize({
+      savedPalettes: [
+        null,
+        { id: 1, name: 'Bad id', colors: ['#000000'] },
+        { id: 'saved-2', colors: ['#000000'] },
+        { id: 'saved-3', name: 'Empty', colors: ['nope'] },
+        { id: 'saved-4', name: 'Not a list', colors: '#000000' },
+        { id: 'saved-5', name: 'Good', colors: ['#000000', 'nope'] },
+      ],
+    });
+    expect(settings.savedPalettes).toEqual([{ id: 'saved-5', name: 'Good', colors: ['#000000'] }]);
+  });
+
+  it('falls back to the basic palette for an unknown or removed palette', () => {
+    expect(normalize({ paletteId: 'saved-9' }).paletteId).toBe(BASIC_PALETTE_ID);
+    expect(normalize({ paletteId: 42 }).paletteId).toBe(BASIC_PALETTE_ID);
+    expect(normalize({ paletteId: 'saved-1', savedPalettes: [{ id: 'saved-1', name: 'Empty', colors: [] }] }).paletteId).toBe(
+      BASIC_PALETTE_ID
+    );
+  });
+
+  it('caps recent colors and saved palettes', () => {
+    const colors = Array.from({ length: 20 }, (_, i) => `#0000${i.toString(16).padStart(2, '0')}`);
+    const palettes = Array.from({ length: 20 }, (_, i) => ({ id: `saved-${i}`, name: `My Colors ${i}`, colors }));
+    const settings = normalize({ recentColors: colors, savedPalettes: palettes });
+    expect(settings.recentColors).toHaveLength(MAX_RECENT_COLORS);
+    expect(settings.savedPalettes).toHaveLength(MAX_SAVED_PALETTES);
+  });
+});
+
+describe('addRecentColor', () => {
+  it('moves the color to the front without repeating it', () => {
+    expect(addRecentColor(['#ef4444', '#3b82f6'], '#3b82f680')).toEqual(['#3b82f6', '#ef4444']);
+  });
+});
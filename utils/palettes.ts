@@ -0,0 +1,89 @@
+import { getOpaqueColor, isHexColor } from './color';
+
+export interface Palette {
+  id: string;
+  name: string;
+  colors: string[];
+}
+
+export interface PaletteSettings {
+  // Palette shown in the color picker, the basic colors, a built-in set or a saved one
+  paletteId: string;
+  // Newest first
+  recentColors: string[];
+  savedPalettes: Palette[];
+}
+
+// The picker's own twelve colors, see COLORS in components/ColorPicker.tsx
+export const BASIC_PALETTE_ID = 'basic';
+
+export const MAX_RECENT_COLORS = 8;
+export const MAX_SAVED_PALETTES = 10;
+
+export const PALETTE_SETS: Palette[] = [
+  {
+    id: 'pastel',
+    name: 'Pastel',
+    colors: ['#fecaca', '#fed7aa', '#fef08a', '#bbf7d0', '#a5f3fc', '#bfdbfe', '#ddd6fe', '#fbcfe8', '#e7e5e4', '#ccfbf1'],
+  },
+  {
+    id: 'skin',
+    name: 'Skin Tones',
+    colors: ['#ffe0cc', '#f9d3b4', '#f1c27d', '#e0ac69', '#c68642', '#a56b46', '#8d5524', '#6b3e26', '#4a2c1d', '#3b2219'],
+  },
+  {
+    id: 'neon',
+    name: 'Neon',
+    colors: ['#ff073a', '#ff6700', '#ffff33', '#39ff14', '#00fff7', '#1f51ff', '#bc13fe', '#ff10f0'],
+  },
+  {
+    id: 'grayscale',
+    name: 'Grays',
+    colors: ['#000000', '#262626', '#404040', '#525252', '#737373', '#a3a3a3', '#d4d4d4', '#e5e5e5', '#f5f5f5', '#ffffff'],
+  },
+];
+
+export const DEFAULT_PALETTE_SETTINGS: PaletteSettings = {
+  paletteId: BASIC_PALETTE_ID,
+  recentColors: [],
+  savedPalettes: [],
+};
+
+const readColors = (colors: unknown): string[] =>
+  Array.isArray(colors) ? [...new Set(colors.filter(isHexColor).map((color) => getOpaqueColor(color)))] : [];
+
+/**
+ * Settings read back from storage, with anything missing or invalid replaced by the defaults.
+ */
+export const normalizePaletteSettings = (saved: Partial<PaletteSettings> | undefined): PaletteSettings => {
+  const savedPalettes = Array.isArray(saved?.savedPalettes)
+    ? saved.savedPalettes
+        .filter((palette) => typeof palette?.id === 'string' && typeof palette.name === 'string')
+        .map((palette) => ({ id: palette.id, name: palette.name, colors: readColors(palette.colors) }))
+        .filter((palette) => palette.colors.length > 0)
+        .slice(0, MAX_SAVED_PALETTES)
+    : [];
+  const ids = [BASIC_PALETTE_ID, ...PALETTE_SETS.map((palette) => palette.id), ...savedPalettes.map((palette) => palette.id)];
+  return {
+    paletteId: typeof saved?.paletteId === 'string' && ids.includes(saved.paletteId) ? saved.paletteId : BASIC_PALETTE_ID,
+    recentColors: readColors(saved?.recentColors).slice(0, MAX_RECENT_COLORS),
+    savedPalettes,
+  };
+};
+
+/**
+ * Moves the color to the front of the recent colors, dropping the oldest one if the row is full.
+ */
+export const addRecentColor = (recentColors: string[], color: string) => {
+  const opaque = getOpaqueColor(color);
+  return [opaque, ...recentColors.filter((recent) => recent !== opaque)].slice(0, MAX_RECENT_COLORS);
+};
+
+/**
+ * A new palette, named "My Colors" with the first number not taken yet.
+ */
+export const createPalette = (savedPalettes: Palette[], colors: string[]): Palette => {
+  let number = 1;
+  while (savedPalettes.some((palette) => palette.name === `My Colors ${number}`)) number++;
+  return { id: `saved-${Date.now().toString(36)}`, name: `My Colors ${number}`, colors: [...colors] };
+};
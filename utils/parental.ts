@@ -0,0 +1,77 @@
+import { ToolType } from '../types';
+
+// 'lock' asks a grown-up each time, 'hide' removes the button
+export type RestrictionMode = 'allow' | 'lock' | 'hide';
+
+export type RestrictedAction = 'clear' | 'magicImport' | 'download';
+
+export interface ParentalSettings {
+  // Four digits, empty asks a math question instead
+  pin: string;
+  restrictions: Record<RestrictedAction, RestrictionMode>;
+  // Minutes of drawing per session, 0 for no limit
+  sessionMinutes: number;
+  tools: ToolType[];
+  // Colors offered in the palette, empty offers all of them plus the custom color picker
+  colors: string[];
+  // Ask a grown-up before a photo is sent to the Magic Import service
+  approvePhotoUploads: boolean;
+}
+
+export const DEFAULT_PARENTAL_SETTINGS: ParentalSettings = {
+  pin: '',
+  restrictions: { clear: 'allow', magicImport: 'allow', download: 'allow' },
+  sessionMinutes: 0,
+  tools: Object.values(ToolType),
+  colors: [],
+  approvePhotoUploads: false,
+};
+
+export const SESSION_LIMITS = [0, 15, 30, 45, 60, 90];
+
+// A session older than this is over, the next visit starts a fresh one
+export const SESSION_RESET_MS = 8 * 60 * 60 * 1000;
+
+export interface DrawingSession {
+  startedAt: number;
+}
+
+const RESTRICTION_MODES: RestrictionMode[] = ['allow', 'lock', 'hide'];
+
+export const isValidPin = (pin: string) => /^\d{4}$/.test(pin);
+
+/**
+ * Settings read back from storage, with anything missing or invalid replaced by the defaults.
+ */
+export const normalizeParentalSettings = (saved: Partial<ParentalSettings> | undefined): ParentalSettings => {
+  const restrictions = { ...DEFAULT_PARENTAL_SETTINGS.restrictions };
+  (Object.keys(restrictions) as RestrictedAction[]).forEach((action) => {
+    const mode = saved?.restrictions?.[action];
+    if (mode && RESTRICTION_MODES.includes(mode)) restrictions[action] = mode;
+  });
+  const tools = Array.isArray(saved?.tools)
+    ? saved.tools.filter((tool) => Object.values(ToolType).includes(tool))
+    : [];
+  return {
+    pin: typeof saved?.pin === 'string' && isValidPin(saved.pin) ? saved.pin : '',
+    restrictions,
+    sessionMinutes: typeof saved?.sessionMinutes === 'number' && saved.sessionMinutes > 0 ? saved.sessionMinutes : 0,
+    tools: tools.length > 0 ? tools : DEFAULT_PARENTAL_SETTINGS.tools,
+    colors: Array.isArray(saved?.colors) ? saved.colors.filter((color) => typeof color === 'string') : [],
+    approvePhotoUploads: saved?.approvePhotoUploads === true,
+  };
+};
+
+export interface MathChallenge {
+  question: string;
+  answer: number;
+}
+
+/**
+ * A multiplication most grown-ups know and young kids don't, used instead of a PIN.
+ */
+export const createMathChallenge = (): MathChallenge => {
+  const a = 6 + Math.floor(Math.random() * 7);
+  const b = 6 + Math.floor(Math.random() * 7);
+  return { question: `${a} × ${b}`, answer: a * b };
+};
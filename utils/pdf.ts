@@ -0,0 +1,74 @@
+export type PaperSize = 'a4' | 'letter';
+
+// Portrait page sizes in PDF points (1/72 inch)
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  letter: { label: 'Letter', width: 612, height: 792 },
+};
+
+// Half an inch, inside what home printers can reach
+export const DEFAULT_PDF_MARGIN = 36;
+
+const format = (n: number) => Number(n.toFixed(2)).toString();
+
+/**
+ * Writes a single-page PDF with a JPEG image centered inside the margins.
+ * The JPEG is embedded as-is (DCTDecode), so no compression library is needed.
+ * The page is turned to landscape when the image is wider than tall.
+ */
+export const createImagePdf = (
+  jpeg: Uint8Array,
+  imageWidth: number,
+  imageHeight: number,
+  paper: PaperSize,
+  margin = DEFAULT_PDF_MARGIN
+): Blob => {
+  const size = PAPER_SIZES[paper];
+  const landscape = imageWidth > imageHeight;
+  const pageWidth = landscape ? size.height : size.width;
+  const pageHeight = landscape ? size.width : size.height;
+
+  const fit = Math.min((pageWidth - margin * 2) / imageWidth, (pageHeight - margin * 2) / imageHeight);
+  const drawWidth = imageWidth * fit;
+  const drawHeight = imageHeight * fit;
+  const x = (pageWidth - drawWidth) / 2;
+  const y = (pageHeight - drawHeight) / 2;
+  const content = `q ${format(drawWidth)} 0 0 ${format(drawHeight)} ${format(x)} ${format(y)} cm /Im0 Do Q`;
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = () => {
+    offsets.push(length);
+    return offsets.length;
+  };
+
+  // The binary comment tells transfer tools the file isn't plain text
+  write('%PDF-1.4\n%âãÏÓ\n');
+  write(`${startObject()} 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n`);
+  write(`${startObject()} 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n`);
+  write(
+    `${startObject()} 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${format(pageWidth)} ${format(pageHeight)}] ` +
+      `/Resources << /XObject << /Im0 4 0 R >> /ProcSet [/PDF /ImageC] >> /Contents 5 0 R >>\nendobj\n`
+  );
+  write(
+    `${startObject()} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+  );
+  write(jpeg);
+  write('\nendstream\nendobj\n');
+  write(`${startObject()} 0 obj\n<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+  const xrefOffset = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
@@ -0,0 +1,490 @@
+import { BrushPreset, DrawingAction, DrawingDocument, FillAction, LayerId, Point, Rect, StrokeAction, StrokePoint, ToolType } from '../types';
+import { BRUSH_PRESETS, createRandom, drawDab } from './brushes';
+import { formatHexColor, getColorOpacity, getOpaqueColor, parseHexColor } from './color';
+import { DEFAULT_FILL_OPTIONS, FillOptions, floodFill } from './floodFill';
+import { drawShape, getShapeBounds } from './shapes';
+import { getStampSrc } from './stickers';
+import { getSymmetryTransforms } from './symmetry';
+
+export interface RenderTarget {
+  // Layer the kid paints on, strokes and fills only ever touch this one
+  paintCtx: CanvasRenderingContext2D;
+  // Locked layer holding imported line art, drawn on top with multiply blending
+  lineArtCtx: CanvasRenderingContext2D;
+  // Canvas pixels per document unit
+  scale: number;
+  docWidth: number;
+  docHeight: number;
+  images: Map<string, HTMLImageElement>;
+}
+
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  let pending = imageCache.get(src);
+  if (!pending) {
+    pending = new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => {
+        imageCache.delete(src);
+        reject(new Error('Failed to load image'));
+      };
+      img.src = src;
+    });
+    imageCache.set(src, pending);
+  }
+  return pending;
+};
+
+/**
+ * Loads every picture referenced by the document so rendering can happen synchronously.
+ * Pictures that fail to load are skipped.
+ */
+export const loadDocumentImages = async (doc: DrawingDocument): Promise<Map<string, HTMLImageElement>> => {
+  const images = new Map<string, HTMLImageElement>();
+  const sources = new Set<string>();
+  doc.actions.forEach((action) => {
+    if (action.type === 'import') sources.add(action.src);
+    if (action.type === 'stamp') {
+      const src = getStampSrc(action);
+      if (src) sources.add(src);
+    }
+  });
+  await Promise.all(
+    [...sources].map(async (src) => {
+      try {
+        images.set(src, await loadImage(src));
+      } catch (e) {
+        console.error('Failed to load imported picture', e);
+      }
+    })
+  );
+  return images;
+};
+
+export const getDocumentScale = (doc: DrawingDocument, width: number, height: number) =>
+  Math.min(width / doc.width, height / doc.height);
+
+const clearLayer = (ctx: CanvasRenderingContext2D) => {
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.restore();
+};
+
+/**
+ * Flattens the layers onto a white background, the way they appear on screen.
+ * Used for export and as the boundary image for flood fill.
+ */
+export const compositeLayers = (
+  paint: HTMLCanvasElement,
+  lineArt: HTMLCanvasElement,
+  output: HTMLCanvasElement = document.createElement('canvas')
+): HTMLCanvasElement => {
+  output.width = paint.width;
+  output.height = paint.height;
+  const ctx = output.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return output;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, output.width, output.height);
+  ctx.drawImage(paint, 0, 0);
+  // White areas of the line art are see-through, dark lines stay on top
+  ctx.globalCompositeOperation = 'multiply';
+  ctx.drawImage(lineArt, 0, 0);
+  ctx.globalCompositeOperation = 'source-over';
+  return output;
+};
+
+/**
+ * Color showing at a canvas pixel, as `#rrggbb`: the paint over the paper with the line art on top.
+ */
+export const sampleColor = (target: RenderTarget, x: number, y: number): string => {
+  const pixel = document.createElement('canvas');
+  pixel.width = pixel.height = 1;
+  const ctx = pixel.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return '#ffffff';
+
+  // Same blending as compositeLayers, for just this pixel
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, 1, 1);
+  ctx.drawImage(target.paintCtx.canvas, x, y, 1, 1, 0, 0, 1, 1);
+  ctx.globalCompositeOperation = 'multiply';
+  ctx.drawImage(target.lineArtCtx.canvas, x, y, 1, 1, 0, 0, 1, 1);
+  const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+  return formatHexColor(r, g, b);
+};
+
+// Reused between fills to avoid allocating a canvas per tap
+let fillBoundaryCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Pixels that bound a fill: everything visible, including the locked line art.
+ */
+export const getFillBoundary = (target: RenderTarget): ImageData | null => {
+  const { width, height } = target.paintCtx.canvas;
+  fillBoundaryCanvas = compositeLayers(target.paintCtx.canvas, target.lineArtCtx.canvas, fillBoundaryCanvas ?? undefined);
+  return fillBoundaryCanvas.getContext('2d', { willReadFrequently: true })?.getImageData(0, 0, width, height) ?? null;
+};
+
+export const getFillOptions = (action: FillAction): FillOptions => ({
+  tolerance: action.tolerance ?? DEFAULT_FILL_OPTIONS.tolerance,
+  gapClosing: action.gapClosing ?? DEFAULT_FILL_OPTIONS.gapClosing,
+});
+
+/**
+ * Canvas pixel where a fill action starts, or null if it's outside the canvas
+ * or the paint there already is the fill color. The fill itself only sees the
+ * layers blended onto paper, where a see-through color never matches, so
+ * tapping the same spot again would keep darkening it.
+ */
+export const getFillStart = (target: RenderTarget, action: FillAction): Point | null => {
+  const { width, height } = target.paintCtx.canvas;
+  const x = Math.floor(action.x * target.scale);
+  const y = Math.floor(action.y * target.scale);
+  if (x < 0 || y < 0 || x >= width || y >= height) return null;
+
+  // Compared premultiplied, the way the canvas stores paint, so its rounding doesn't hide a match
+  const paint = target.paintCtx.getImageData(x, y, 1, 1).data;
+  const color = parseHexColor(action.color);
+  const isSame = color.every((value, i) =>
+    i === 3 ? Math.abs(value - paint[3]) <= 1 : Math.abs(value * color[3] - paint[i] * paint[3]) <= 255
+  );
+  return isSame ? null : { x, y };
+};
+
+const fullCanvasRect = (ctx: CanvasRenderingContext2D): Rect => ({
+  x: 0,
+  y: 0,
+  width: ctx.canvas.width,
+  height: ctx.canvas.height,
+});
+
+// Line width multiplier at zero and full stylus pressure
+const MIN_PRESSURE_WIDTH = 0.3;
+const MAX_PRESSURE_WIDTH = 1.7;
+
+/**
+ * Line width of a stroke at a point in document units.
+ * Stylus pressure only modulates the brush, pencils keep an even line.
+ */
+export const getStrokeWidth = (stroke: Pick<StrokeAction, 'tool' | 'size'>, point: StrokePoint) => {
+  if (stroke.tool !== ToolType.BRUSH || point.pressure === undefined) return stroke.size;
+  return stroke.size * (MIN_PRESSURE_WIDTH + (MAX_PRESSURE_WIDTH - MIN_PRESSURE_WIDTH) * point.pressure);
+};
+
+const clampRect = (ctx: CanvasRenderingContext2D, rect: Rect): Rect | null => {
+  const x = Math.max(0, rect.x);
+  const y = Math.max(0, rect.y);
+  const right = Math.min(ctx.canvas.width, rect.x + rect.width);
+  const bottom = Math.min(ctx.canvas.height, rect.y + rect.height);
+  if (right <= x || bottom <= y) return null;
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+/**
+ * Canvas pixel area touched by a stroke, clamped to the canvas.
+ */
+export const getStrokeBounds = (
+  target: RenderTarget,
+  stroke: Pick<StrokeAction, 'tool' | 'size' | 'points' | 'symmetry'>
+): Rect | null => {
+  const { paintCtx: ctx, scale } = target;
+  if (stroke.points.length === 0) return null;
+
+  const transforms = getSymmetryTransforms(stroke.symmetry, getDocumentCenter(target));
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity, maxWidth = 0;
+  stroke.points.forEach((point) => {
+    transforms.forEach((transform) => {
+      const p = transform(point);
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    });
+    maxWidth = Math.max(maxWidth, getStrokeWidth(stroke, point));
+  });
+
+  // Half the line width plus a little room for anti-aliasing
+  const pad = (maxWidth / 2) * scale + 2;
+  const x = Math.max(0, Math.floor(minX * scale - pad));
+  const y = Math.max(0, Math.floor(minY * scale - pad));
+  const right = Math.min(ctx.canvas.width, Math.ceil(maxX * scale + pad));
+  const bottom = Math.min(ctx.canvas.height, Math.ceil(maxY * scale + pad));
+  if (right <= x || bottom <= y) return null;
+
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+const getDocumentCenter = (target: RenderTarget): Point => ({ x: target.docWidth / 2, y: target.docHeight / 2 });
+
+type StrokeStyle = Pick<StrokeAction, 'tool' | 'color' | 'size' | 'symmetry' | 'brush'>;
+
+/**
+ * Per-stroke state of the brush engine. Live drawing and replay both start with
+ * beginStroke and feed the same segments, so textured strokes come out identical.
+ */
+export interface StrokeRenderState {
+  preset: BrushPreset;
+  random: () => number;
+  // Document units travelled since the last dab
+  distance: number;
+  dabs: number;
+  // See-through strokes paint opaque dabs here, then composite them once at the
+  // stroke opacity so the stroke doesn't darken where it overlaps itself
+  buffer: HTMLCanvasElement | null;
+  opacity: number;
+  // Paint layer as it was before a live stroke, the buffer is composited over it after every segment
+  base: CanvasImageSource | null;
+}
+
+// Separate buffers, so a redraw during a live stroke doesn't clobber it
+let liveStrokeBuffer: HTMLCanvasElement | null = null;
+let replayStrokeBuffer: HTMLCanvasElement | null = null;
+
+const prepareStrokeBuffer = (buffer: HTMLCanvasElement | null, paint: HTMLCanvasElement) => {
+  const canvas = buffer ?? document.createElement('canvas');
+  if (canvas.width !== paint.width || canvas.height !== paint.height) {
+    canvas.width = paint.width;
+    canvas.height = paint.height;
+  } else {
+    canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  }
+  return canvas;
+};
+
+export const getBrushPreset = (stroke: Pick<StrokeAction, 'tool' | 'brush'>) =>
+  stroke.tool === ToolType.BRUSH ? stroke.brush ?? BrushPreset.ROUND : BrushPreset.ROUND;
+
+/**
+ * Opacity a stroke is laid down with, from the brush and the alpha of its color.
+ * The eraser always removes paint completely.
+ */
+export const getStrokeOpacity = (stroke: Pick<StrokeAction, 'tool' | 'brush' | 'color'>) =>
+  stroke.tool === ToolType.ERASER ? 1 : BRUSH_PRESETS[getBrushPreset(stroke)].strokeOpacity * getColorOpacity(stroke.color);
+
+/**
+ * Starts rendering a stroke. Pass `base` (the paint layer before the stroke) when
+ * drawing live, so see-through brushes can show the stroke as it grows.
+ * Callers growing strokes away from the canvas, like the replay, pass their own `buffer`.
+ */
+export const beginStroke = (
+  target: RenderTarget,
+  stroke: Pick<StrokeAction, 'tool' | 'brush' | 'seed' | 'color'>,
+  base: CanvasImageSource | null = null,
+  ownBuffer: HTMLCanvasElement | null = null
+): StrokeRenderState => {
+  const preset = getBrushPreset(stroke);
+  const opacity = getStrokeOpacity(stroke);
+  let buffer: HTMLCanvasElement | null = null;
+  if (opacity < 1) {
+    if (ownBuffer) buffer = prepareStrokeBuffer(ownBuffer, target.paintCtx.canvas);
+    else if (base) buffer = liveStrokeBuffer = prepareStrokeBuffer(liveStrokeBuffer, target.paintCtx.canvas);
+    else buffer = replayStrokeBuffer = prepareStrokeBuffer(replayStrokeBuffer, target.paintCtx.canvas);
+  }
+  return { preset, random: createRandom(stroke.seed ?? 0), distance: 0, dabs: 0, buffer, opacity, base };
+};
+
+/**
+ * Finishes a replayed stroke by compositing its buffer onto the paint layer.
+ */
+export const endStroke = (target: RenderTarget, state: StrokeRenderState) => {
+  if (!state.buffer || state.base) return;
+  const ctx = target.paintCtx;
+  ctx.save();
+  ctx.globalAlpha = state.opacity;
+  ctx.drawImage(state.buffer, 0, 0);
+  ctx.restore();
+};
+
+/**
+ * Stamps dabs along a segment at the preset's spacing and returns the pixel area they cover.
+ */
+const drawDabSegment = (
+  target: RenderTarget,
+  ctx: CanvasRenderingContext2D,
+  stroke: StrokeStyle,
+  start: StrokePoint,
+  end: StrokePoint,
+  state: StrokeRenderState
+): Rect | null => {
+  const { scale } = target;
+  const transforms = getSymmetryTransforms(stroke.symmetry, getDocumentCenter(target));
+  const startWidth = getStrokeWidth(stroke, start);
+  const endWidth = getStrokeWidth(stroke, end);
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+  const stamp = (t: number) => {
+    const width = startWidth + (endWidth - startWidth) * t;
+    const point = { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+    const size = width * scale;
+    transforms.forEach((transform) => {
+      const p = transform(point);
+      const x = p.x * scale;
+      const y = p.y * scale;
+      drawDab(ctx, state.preset, { x, y, size, color: getOpaqueColor(stroke.color), index: state.dabs }, state.random);
+      minX = Math.min(minX, x - size / 2);
+      minY = Math.min(minY, y - size / 2);
+      maxX = Math.max(maxX, x + size / 2);
+      maxY = Math.max(maxY, y + size / 2);
+    });
+    state.dabs++;
+  };
+
+  if (state.dabs === 0) stamp(0);
+  const spacing = Math.max(0.5, BRUSH_PRESETS[state.preset].spacing * Math.max(startWidth, endWidth));
+  let next = spacing - state.distance;
+  while (next <= length) {
+    stamp(next / length);
+    next += spacing;
+  }
+  state.distance = length - (next - spacing);
+
+  if (minX > maxX) return null;
+  return clampRect(ctx, {
+    x: Math.floor(minX) - 2,
+    y: Math.floor(minY) - 2,
+    width: Math.ceil(maxX - minX) + 4,
+    height: Math.ceil(maxY - minY) + 4,
+  });
+};
+
+/**
+ * Draws one segment of a stroke, replicated across the stroke's symmetry axes.
+ */
+export const drawStrokeSegment = (
+  target: RenderTarget,
+  stroke: StrokeStyle,
+  start: StrokePoint,
+  end: StrokePoint,
+  state?: StrokeRenderState
+) => {
+  const { paintCtx: ctx } = target;
+
+  if (state && (state.buffer || state.preset !== BrushPreset.ROUND)) {
+    const bufferCtx = state.buffer?.getContext('2d');
+    const dirty = state.preset === BrushPreset.ROUND
+      ? drawLineSegment(target, bufferCtx ?? ctx, stroke, start, end)
+      : drawDabSegment(target, bufferCtx ?? ctx, stroke, start, end, state);
+    if (bufferCtx && state.base && dirty) {
+      // Show the growing stroke: the layer before it, with the buffer on top at the stroke opacity
+      const { x, y, width, height } = dirty;
+      ctx.save();
+      ctx.clearRect(x, y, width, height);
+      ctx.drawImage(state.base, x, y, width, height, x, y, width, height);
+      ctx.globalAlpha = state.opacity;
+      ctx.drawImage(state.buffer!, x, y, width, height, x, y, width, height);
+      ctx.restore();
+    }
+    return;
+  }
+
+  drawLineSegment(target, ctx, stroke, start, end);
+};
+
+/**
+ * Draws a segment of a round stroke in its opaque color and returns the pixel area it covers.
+ */
+const drawLineSegment = (
+  target: RenderTarget,
+  ctx: CanvasRenderingContext2D,
+  stroke: StrokeStyle,
+  start: StrokePoint,
+  end: StrokePoint
+): Rect | null => {
+  const { scale } = target;
+  ctx.save();
+  ctx.beginPath();
+  getSymmetryTransforms(stroke.symmetry, getDocumentCenter(target)).forEach((transform) => {
+    const a = transform(start);
+    const b = transform(end);
+    ctx.moveTo(a.x * scale, a.y * scale);
+    ctx.lineTo(b.x * scale, b.y * scale);
+  });
+
+  // The eraser removes paint, revealing the white paper underneath
+  if (stroke.tool === ToolType.ERASER) ctx.globalCompositeOperation = 'destination-out';
+  ctx.strokeStyle = stroke.tool === ToolType.ERASER ? '#000000' : getOpaqueColor(stroke.color);
+  ctx.lineWidth = getStrokeWidth(stroke, end) * scale;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.stroke();
+  ctx.restore();
+  return getStrokeBounds(target, { ...stroke, points: [start, end] });
+};
+
+const drawImport = (target: RenderTarget, img: HTMLImageElement, layer: LayerId) => {
+  const { scale, docWidth, docHeight } = target;
+  clearLayer(target.paintCtx);
+  clearLayer(target.lineArtCtx);
+  const ctx = layer === 'paint' ? target.paintCtx : target.lineArtCtx;
+
+  // Scale to fit the document while maintaining aspect ratio
+  const fit = Math.min(docWidth / img.width, docHeight / img.height);
+  const x = docWidth / 2 - (img.width / 2) * fit;
+  const y = docHeight / 2 - (img.height / 2) * fit;
+
+  ctx.drawImage(img, x * scale, y * scale, img.width * fit * scale, img.height * fit * scale);
+};
+
+/**
+ * Draws a single action and returns the canvas pixel area it changed.
+ */
+export const renderAction = (target: RenderTarget, action: DrawingAction): Rect | null => {
+  const { paintCtx: ctx, scale } = target;
+  switch (action.type) {
+    case 'stroke': {
+      const { points } = action;
+      if (points.length === 0) return null;
+      // Replay segment by segment so the result matches what was drawn live
+      const state = beginStroke(target, action);
+      drawStrokeSegment(target, action, points[0], points[0], state);
+      for (let i = 1; i < points.length; i++) {
+        drawStrokeSegment(target, action, points[i - 1], points[i], state);
+      }
+      endStroke(target, state);
+      return getStrokeBounds(target, action);
+    }
+    case 'fill': {
+      const start = getFillStart(target, action);
+      const boundary = getFillBoundary(target);
+      if (!start || !boundary) return null;
+      const { width, height } = ctx.canvas;
+      return floodFill(ctx, start.x, start.y, action.color, width, height, boundary, getFillOptions(action));
+    }
+    case 'shape':
+      drawShape(ctx, action, scale);
+      return getShapeBounds(action, scale, ctx.canvas.width, ctx.canvas.height);
+    case 'stamp': {
+      const src = getStampSrc(action);
+      const img = src ? target.images.get(src) : undefined;
+      if (!img) return null;
+      const half = (action.size / 2) * scale;
+      const x = action.x * scale - half;
+      const y = action.y * scale - half;
+      ctx.save();
+      ctx.globalAlpha = getColorOpacity(action.color);
+      ctx.drawImage(img, x, y, half * 2, half * 2);
+      ctx.restore();
+      return clampRect(ctx, { x: Math.floor(x) - 1, y: Math.floor(y) - 1, width: Math.ceil(half * 2) + 2, height: Math.ceil(half * 2) + 2 });
+    }
+    case 'import': {
+      const img = target.images.get(action.src);
+      if (!img) return null;
+      drawImport(target, img, action.layer ?? 'lineArt');
+      return fullCanvasRect(ctx);
+    }
+    case 'clear':
+      clearLayer(ctx);
+      clearLayer(target.lineArtCtx);
+      return fullCanvasRect(ctx);
+  }
+};
+
+export const renderDocument = (target: RenderTarget, doc: DrawingDocument) => {
+  clearLayer(target.paintCtx);
+  clearLayer(target.lineArtCtx);
+  doc.actions.forEach((action) => renderAction(target, action));
+};
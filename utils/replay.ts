@@ -0,0 +1,186 @@
+import { DrawingDocument, StrokeAction } from '../types';
+import { buildPalette, createGifEncoder } from './gif';
+import {
+  RenderTarget,
+  StrokeRenderState,
+  beginStroke,
+  compositeLayers,
+  drawStrokeSegment,
+  endStroke,
+  getStrokeOpacity,
+  loadDocumentImages,
+  renderAction,
+  renderDocument,
+} from './renderer';
+
+// Stroke points drawn per replay step, about the speed they were drawn at when played at 60 steps a second
+const POINTS_PER_STEP = 4;
+
+export const REPLAY_SPEEDS = [1, 2, 4, 8];
+
+// Longest side of the animated GIF in pixels
+const GIF_SIZE = 480;
+// Frames in the GIF, steps are skipped to stay under it
+const GIF_MAX_FRAMES = 120;
+const GIF_FRAME_DELAY = 80;
+// How long the finished picture stays up before the animation loops
+const GIF_FINAL_DELAY = 2500;
+
+interface ReplayStep {
+  action: number;
+  // For strokes, the points drawn up to, exclusive
+  pointEnd?: number;
+}
+
+const getReplaySteps = (doc: DrawingDocument): ReplayStep[] => {
+  const steps: ReplayStep[] = [];
+  doc.actions.forEach((action, index) => {
+    if (action.type === 'stroke') {
+      for (let end = POINTS_PER_STEP; end < action.points.length + POINTS_PER_STEP; end += POINTS_PER_STEP) {
+        steps.push({ action: index, pointEnd: Math.min(end, action.points.length) });
+      }
+    } else {
+      steps.push({ action: index });
+    }
+  });
+  return steps;
+};
+
+export interface Replay {
+  readonly length: number;
+  // Steps drawn so far
+  readonly position: number;
+  // Draws the next step, returns false once the drawing is complete
+  step: () => boolean;
+  // Back to an empty sheet
+  reset: () => void;
+}
+
+/**
+ * Redraws the document onto `target` step by step, in the order it was drawn.
+ * Strokes grow a few points at a time, every other action is one step.
+ */
+export const createReplay = (target: RenderTarget, doc: DrawingDocument): Replay => {
+  const steps = getReplaySteps(doc);
+  let position = 0;
+  let stroke: { action: StrokeAction; state: StrokeRenderState; drawn: number } | null = null;
+  // The paint layer before a see-through stroke, which is shown growing over it
+  let base: HTMLCanvasElement | null = null;
+  // Own stroke buffer, so a replay can pause mid-stroke while another one runs
+  let buffer: HTMLCanvasElement | null = null;
+
+  const startStroke = (action: StrokeAction) => {
+    if (getStrokeOpacity(action) >= 1) {
+      return { action, state: beginStroke(target, action), drawn: 0 };
+    }
+    const paint = target.paintCtx.canvas;
+    base = base ?? document.createElement('canvas');
+    base.width = paint.width;
+    base.height = paint.height;
+    base.getContext('2d')?.drawImage(paint, 0, 0);
+    buffer = buffer ?? document.createElement('canvas');
+    return { action, state: beginStroke(target, action, base, buffer), drawn: 0 };
+  };
+
+  return {
+    get length() {
+      return steps.length;
+    },
+    get position() {
+      return position;
+    },
+    step() {
+      const next = steps[position];
+      if (!next) return false;
+      position++;
+
+      const action = doc.actions[next.action];
+      if (action.type !== 'stroke' || next.pointEnd === undefined) {
+        renderAction(target, action);
+        return position < steps.length;
+      }
+
+      if (stroke?.action !== action) stroke = startStroke(action);
+      const { points } = action;
+      for (let i = stroke.drawn; i < next.pointEnd; i++) {
+        drawStrokeSegment(target, action, points[Math.max(0, i - 1)], points[i], stroke.state);
+      }
+      stroke.drawn = next.pointEnd;
+      if (stroke.drawn === points.length) {
+        endStroke(target, stroke.state);
+        stroke = null;
+      }
+      return position < steps.length;
+    },
+    reset() {
+      position = 0;
+      stroke = null;
+      renderDocument(target, { ...doc, actions: [] });
+    },
+  };
+};
+
+const createLayer = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Offscreen layers for replaying `doc` at the given size.
+ */
+export const createReplayTarget = async (doc: DrawingDocument, width: number, height: number): Promise<RenderTarget> => {
+  const paintCtx = createLayer(width, height).getContext('2d', { willReadFrequently: true });
+  const lineArtCtx = createLayer(width, height).getContext('2d');
+  if (!paintCtx || !lineArtCtx) throw new Error('Your drawing could not be replayed.');
+  return {
+    paintCtx,
+    lineArtCtx,
+    scale: Math.min(width / doc.width, height / doc.height),
+    docWidth: doc.width,
+    docHeight: doc.height,
+    images: await loadDocumentImages(doc),
+  };
+};
+
+// Lets the page repaint between GIF frames
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Records the replay of the document as a looping animated GIF, entirely in
+ * the browser. `onProgress` gets the share done, from 0 to 1.
+ */
+export const exportReplayGif = async (
+  doc: DrawingDocument,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const scale = Math.min(1, GIF_SIZE / Math.max(doc.width, doc.height));
+  const width = Math.max(1, Math.round(doc.width * scale));
+  const height = Math.max(1, Math.round(doc.height * scale));
+  const target = await createReplayTarget(doc, width, height);
+  const frame = createLayer(width, height);
+  const readFrame = () =>
+    compositeLayers(target.paintCtx.canvas, target.lineArtCtx.canvas, frame)
+      .getContext('2d', { willReadFrequently: true })!
+      .getImageData(0, 0, width, height).data;
+
+  // The finished picture holds nearly every color that appears along the way
+  renderDocument(target, doc);
+  const encoder = createGifEncoder(width, height, buildPalette(readFrame()));
+
+  const replay = createReplay(target, doc);
+  replay.reset();
+  const stepsPerFrame = Math.max(1, Math.ceil(replay.length / GIF_MAX_FRAMES));
+  encoder.addFrame(readFrame(), GIF_FRAME_DELAY);
+  let playing = replay.length > 0;
+  while (playing) {
+    for (let i = 0; i < stepsPerFrame && playing; i++) playing = replay.step();
+    encoder.addFrame(readFrame(), playing ? GIF_FRAME_DELAY : GIF_FINAL_DELAY);
+    onProgress?.(replay.position / replay.length);
+    await nextTick();
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+  }
+  return encoder.finish();
+};
@@ -0,0 +1,110 @@
+import { Point, Rect, ShapeAction, ShapeType } from '../types';
+
+// Inner radius of a star relative to its outer radius
+const STAR_INNER_RATIO = 0.4;
+const STAR_POINTS = 5;
+
+/**
+ * Applies shift / lock-aspect: lines snap to 45° steps, other shapes become
+ * as wide as they are tall (squares, circles, even stars and hearts).
+ */
+export const constrainShapeEnd = (shape: ShapeType, start: Point, end: Point): Point => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+
+  if (shape === ShapeType.LINE) {
+    const step = Math.PI / 4;
+    const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+    const length = Math.hypot(dx, dy);
+    return { x: start.x + Math.cos(angle) * length, y: start.y + Math.sin(angle) * length };
+  }
+
+  const side = Math.max(Math.abs(dx), Math.abs(dy));
+  return { x: start.x + (dx < 0 ? -side : side), y: start.y + (dy < 0 ? -side : side) };
+};
+
+/**
+ * Canvas pixel area touched by a shape, clamped to the canvas.
+ */
+export const getShapeBounds = (
+  shape: Pick<ShapeAction, 'size' | 'start' | 'end'>,
+  scale: number,
+  canvasWidth: number,
+  canvasHeight: number
+): Rect | null => {
+  const pad = (shape.size / 2) * scale + 2;
+  const x = Math.max(0, Math.floor(Math.min(shape.start.x, shape.end.x) * scale - pad));
+  const y = Math.max(0, Math.floor(Math.min(shape.start.y, shape.end.y) * scale - pad));
+  const right = Math.min(canvasWidth, Math.ceil(Math.max(shape.start.x, shape.end.x) * scale + pad));
+  const bottom = Math.min(canvasHeight, Math.ceil(Math.max(shape.start.y, shape.end.y) * scale + pad));
+  if (right <= x || bottom <= y) return null;
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+const traceShape = (ctx: CanvasRenderingContext2D, shape: ShapeType, start: Point, end: Point) => {
+  const x = Math.min(start.x, end.x);
+  const y = Math.min(start.y, end.y);
+  const w = Math.abs(end.x - start.x);
+  const h = Math.abs(end.y - start.y);
+
+  ctx.beginPath();
+  switch (shape) {
+    case ShapeType.LINE:
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      return;
+    case ShapeType.RECTANGLE:
+      ctx.rect(x, y, w, h);
+      return;
+    case ShapeType.CIRCLE:
+      ctx.ellipse(x + w / 2, y + h / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+      return;
+    case ShapeType.STAR: {
+      const cx = x + w / 2;
+      const cy = y + h / 2;
+      for (let i = 0; i < STAR_POINTS * 2; i++) {
+        const radius = i % 2 === 0 ? 1 : STAR_INNER_RATIO;
+        const angle = -Math.PI / 2 + (i * Math.PI) / STAR_POINTS;
+        const px = cx + Math.cos(angle) * (w / 2) * radius;
+        const py = cy + Math.sin(angle) * (h / 2) * radius;
+        if (i === 0) ctx.moveTo(px, py);
+        else ctx.lineTo(px, py);
+      }
+      ctx.closePath();
+      return;
+    }
+    case ShapeType.HEART:
+      ctx.moveTo(x + w / 2, y + h * 0.3);
+      ctx.bezierCurveTo(x + w / 2, y, x, y, x, y + h * 0.3);
+      ctx.bezierCurveTo(x, y + h * 0.6, x + w / 2, y + h * 0.8, x + w / 2, y + h);
+      ctx.bezierCurveTo(x + w / 2, y + h * 0.8, x + w, y + h * 0.6, x + w, y + h * 0.3);
+      ctx.bezierCurveTo(x + w, y, x + w / 2, y, x + w / 2, y + h * 0.3);
+      ctx.closePath();
+      return;
+  }
+};
+
+/**
+ * Draws a shape given in document coordinates onto a context in canvas pixels.
+ * Used both for the rubber-band preview and for the final shape on the paint layer.
+ */
+export const drawShape = (
+  ctx: CanvasRenderingContext2D,
+  shape: Omit<ShapeAction, 'type'>,
+  scale: number
+) => {
+  const start = { x: shape.start.x * scale, y: shape.start.y * scale };
+  const end = { x: shape.end.x * scale, y: shape.end.y * scale };
+
+  ctx.save();
+  traceShape(ctx, shape.shape, start, end);
+  ctx.strokeStyle = shape.color;
+  ctx.fillStyle = shape.color;
+  ctx.lineWidth = shape.size * scale;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  // Lines have no inside to fill
+  if (shape.filled && shape.shape !== ShapeType.LINE) ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+};
@@ -0,0 +1,153 @@
+import { StampAction } from '../types';
+import { getOpaqueColor } from './color';
+
+export type StickerCategory = 'animals' | 'stars' | 'vehicles' | 'faces';
+
+export interface Sticker {
+  id: string;
+  label: string;
+  category: StickerCategory;
+  // 64x64 SVG body, `currentColor` is replaced by the selected color
+  body: string;
+}
+
+const OUTLINE = 'stroke="#1f2937" stroke-width="3" stroke-linejoin="round" stroke-linecap="round"';
+const INK = '#1f2937';
+
+/**
+ * Built-in stickers. They are plain strings bundled with the app, so stamping
+ * works offline and never goes through the AI service.
+ */
+export const STICKERS: Sticker[] = [
+  {
+    id: 'cat',
+    label: 'Cat',
+    category: 'animals',
+    body: `<path d="M14 26 L12 8 L26 18 Q32 16 38 18 L52 8 L50 26 Q56 34 52 44 Q46 56 32 56 Q18 56 12 44 Q8 34 14 26 Z" fill="currentColor" ${OUTLINE}/>
+      <circle cx="24" cy="34" r="3" fill="${INK}"/><circle cx="40" cy="34" r="3" fill="${INK}"/>
+      <path d="M29 41 L35 41 L32 44 Z" fill="${INK}"/>
+      <path d="M32 44 Q28 49 25 47 M32 44 Q36 49 39 47 M6 38 L19 40 M6 45 L19 43 M58 38 L45 40 M58 45 L45 43" fill="none" stroke="${INK}" stroke-width="2" stroke-linecap="round"/>`,
+  },
+  {
+    id: 'dog',
+    label: 'Dog',
+    category: 'animals',
+    body: `<ellipse cx="32" cy="36" rx="18" ry="18" fill="currentColor" ${OUTLINE}/>
+      <path d="M17 22 Q5 22 7 44 Q14 46 18 34 Z M47 22 Q59 22 57 44 Q50 46 46 34 Z" fill="currentColor" ${OUTLINE}/>
+      <circle cx="25" cy="32" r="3" fill="${INK}"/><circle cx="39" cy="32" r="3" fill="${INK}"/>
+      <ellipse cx="32" cy="41" rx="4" ry="3" fill="${INK}"/>
+      <path d="M32 44 L32 47 M26 48 Q32 53 38 48" fill="none" stroke="${INK}" stroke-width="2" stroke-linecap="round"/>`,
+  },
+  {
+    id: 'fish',
+    label: 'Fish',
+    category: 'animals',
+    body: `<path d="M18 32 L4 20 L7 32 L4 44 Z" fill="currentColor" ${OUTLINE}/>
+      <path d="M16 32 Q28 14 44 18 Q58 24 60 32 Q58 40 44 46 Q28 50 16 32 Z" fill="currentColor" ${OUTLINE}/>
+      <circle cx="47" cy="29" r="3" fill="${INK}"/>
+      <path d="M32 24 Q36 32 32 40" fill="none" stroke="${INK}" stroke-width="2" stroke-linecap="round"/>`,
+  },
+  {
+    id: 'butterfly',
+    label: 'Butterfly',
+    category: 'animals',
+    body: `<path d="M32 30 Q20 6 8 14 Q2 26 30 34 Q6 40 14 54 Q24 60 32 38 Q40 60 50 54 Q58 40 34 34 Q62 26 56 14 Q44 6 32 30 Z" fill="currentColor" ${OUTLINE}/>
+      <path d="M32 20 L32 50 M32 20 Q28 12 24 10 M32 20 Q36 12 40 10" fill="none" stroke="${INK}" stroke-width="3" stroke-linecap="round"/>`,
+  },
+  {
+    id: 'star',
+    label: 'Star',
+    category: 'stars',
+    body: `<path d="M32 6 L39.1 24.3 L58.6 25.3 L43.4 37.7 L48.5 56.7 L32 46 L15.5 56.7 L20.6 37.7 L5.4 25.3 L24.9 24.3 Z" fill="currentColor" ${OUTLINE}/>`,
+  },
+  {
+    id: 'sparkle',
+    label: 'Sparkle',
+    category: 'stars',
+    body: `<path d="M32 4 Q35 29 60 32 Q35 35 32 60 Q29 35 4 32 Q29 29 32 4 Z" fill="currentColor" ${OUTLINE}/>
+      <path d="M52 8 L52 16 M48 12 L56 12 M12 48 L12 56 M8 52 L16 52" fill="none" stroke="${INK}" stroke-width="2" stroke-linecap="round"/>`,
+  },
+  {
+    id: 'heart',
+    label: 'Heart',
+    category: 'stars',
+    body: `<path d="M32 56 Q6 40 6 22 Q6 8 19 8 Q28 8 32 18 Q36 8 45 8 Q58 8 58 22 Q58 40 32 56 Z" fill="currentColor" ${OUTLINE}/>`,
+  },
+  {
+    id: 'sun',
+    label: 'Sun',
+    category: 'stars',
+    body: `<path d="M32 2 L32 10 M32 54 L32 62 M2 32 L10 32 M54 32 L62 32 M11 11 L17 17 M47 47 L53 53 M11 53 L17 47 M47 17 L53 11" fill="none" stroke="${INK}" stroke-width="3" stroke-linecap="round"/>
+      <circle cx="32" cy="32" r="16" fill="currentColor" ${OUTLINE}/>`,
+  },
+  {
+    id: 'car',
+    label: 'Car',
+    category: 'vehicles',
+    body: `<path d="M6 42 L6 32 Q6 28 10 28 L16 28 L22 16 Q23 14 26 14 L42 14 Q45 14 46 16 L52 28 L56 28 Q60 28 60 32 L60 42 Z" fill="currentColor" ${OUTLINE}/>
+      <path d="M24 28 L27 19 L33 19 L33 28 Z M37 28 L37 19 L42 19 L46 28 Z" fill="#ffffff" ${OUTLINE}/>
+      <circle cx="18" cy="44" r="7" fill="#ffffff" ${OUTLINE}/><circle cx="48" cy="44" r="7" fill="#ffffff" ${OUTLINE}/>`,
+  },
+  {
+    id: 'rocket',
+    label: 'Rocket',
+    category: 'vehicles',
+    body: `<path d="M32 4 Q46 16 44 40 L20 40 Q18 16 32 4 Z" fill="currentColor" ${OUTLINE}/>
+      <path d="M20 30 L10 44 L20 42 Z M44 30 L54 44 L44 42 Z" fill="currentColor" ${OUTLINE}/>
+      <circle cx="32" cy="22" r="5" fill="#ffffff" ${OUTLINE}/>
+      <path d="M26 44 Q32 60 38 44" fill="#fdba74" ${OUTLINE}/>`,
+  },
+  {
+    id: 'boat',
+    label: 'Boat',
+    category: 'vehicles',
+    body: `<path d="M32 6 L32 40 M32 8 L52 34 L32 34" fill="#ffffff" ${OUTLINE}/>
+      <path d="M6 40 L58 40 L50 54 L14 54 Z" fill="currentColor" ${OUTLINE}/>
+      <path d="M4 60 Q10 56 16 60 Q22 64 28 60 Q34 56 40 60 Q46 64 52 60 Q56 57 60 60" fill="none" stroke="${INK}" stroke-width="2" stroke-linecap="round"/>`,
+  },
+  {
+    id: 'happy',
+    label: 'Happy Face',
+    category: 'faces',
+    body: `<circle cx="32" cy="32" r="26" fill="currentColor" ${OUTLINE}/>
+      <circle cx="23" cy="26" r="3.5" fill="${INK}"/><circle cx="41" cy="26" r="3.5" fill="${INK}"/>
+      <path d="M20 38 Q32 50 44 38" fill="none" stroke="${INK}" stroke-width="3" stroke-linecap="round"/>`,
+  },
+  {
+    id: 'silly',
+    label: 'Silly Face',
+    category: 'faces',
+    body: `<circle cx="32" cy="32" r="26" fill="currentColor" ${OUTLINE}/>
+      <path d="M18 26 Q23 20 28 26 M36 24 L46 28" fill="none" stroke="${INK}" stroke-width="3" stroke-linecap="round"/>
+      <path d="M20 38 L44 38" fill="none" stroke="${INK}" stroke-width="3" stroke-linecap="round"/>
+      <path d="M30 38 L30 46 Q35 52 40 46 L40 38" fill="#f472b6" ${OUTLINE}/>`,
+  },
+  {
+    id: 'surprised',
+    label: 'Surprised Face',
+    category: 'faces',
+    body: `<circle cx="32" cy="32" r="26" fill="currentColor" ${OUTLINE}/>
+      <circle cx="23" cy="25" r="4" fill="#ffffff" ${OUTLINE}/><circle cx="41" cy="25" r="4" fill="#ffffff" ${OUTLINE}/>
+      <ellipse cx="32" cy="42" rx="6" ry="7" fill="${INK}"/>`,
+  },
+];
+
+export const DEFAULT_STICKER_ID = STICKERS[0].id;
+
+export const getSticker = (id: string) => STICKERS.find((sticker) => sticker.id === id);
+
+/**
+ * Data URL of a sticker tinted with the given color, or null for unknown stickers.
+ */
+export const getStickerSrc = (id: string, color: string): string | null => {
+  const sticker = getSticker(id);
+  if (!sticker) return null;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64" viewBox="0 0 64 64">${sticker.body.replace(/currentColor/g, color)}</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// See-through stamps are drawn opaque and faded as a whole, so the sticker's own parts don't show through each other
+export const getStampSrc = (action: StampAction) => getStickerSrc(action.sticker, getOpaqueColor(action.color));
+
+// Brush size slider value to sticker size in document units
+export const getStampSize = (brushSize: number) => Math.max(24, brushSize * 3);
@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { SvgError, isSvgFile, sanitizeSvg } from './svg';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+const wrap = (body: string, attributes = 'viewBox="0 0 100 100"') =>
+  `<svg xmlns="${SVG_NS}" xmlns:xlink="http://www.w3.org/1999/xlink" ${attributes}>${body}</svg>`;
+
+const parse = (markup: string) => new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement;
+
+const reasonOf = (markup: string) => {
+  try {
+    sanitizeSvg(markup);
+  } catch (e) {
+    return e instanceof SvgError ? e.reason : 'other';
+  }
+  return null;
+};
+
+describe('sanitizeSvg', () => {
+  it('removes scripts, event handlers and foreign content', () => {
+    const svg = parse(
+      sanitizeSvg(
+        wrap(
+          '<script>alert(1)</script>' +
+            '<foreignObject><div xmlns="http://www.w3.org/1999/xhtml">hi</div></foreignObject>' +
+            '<circle cx="50" cy="50" r="40" onclick="alert(1)" />'
+        )
+      )
+    );
+    expect(svg.querySelector('script')).toBeNull();
+    expect(svg.querySelector('foreignObject')).toBeNull();
+    expect(svg.querySelector('circle')?.hasAttribute('onclick')).toBe(false);
+  });
+
+  it('keeps local references and drops external ones', () => {
+    const svg = parse(
+      sanitizeSvg(
+        wrap(
+          '<defs><path id="leaf" d="M0 0 L10 10" /></defs>' +
+            '<use href="#leaf" />' +
+            '<use xlink:href="https://example.com/evil.svg#x" />' +
+            '<rect width="10" height="10" clip-path="url(https://example.com/clip)" />'
+        )
+      )
+    );
+    const uses = svg.querySelectorAll('use');
+    expect(uses[0].getAttribute('href')).toBe('#leaf');
+    expect(uses[1].attributes.length).toBe(0);
+    expect(svg.querySelector('rect')?.hasAttribute('clip-path')).toBe(false);
+  });
+
+  it('forces black outlines with no fill', () => {
+    const svg = parse(sanitizeSvg(wrap('<path d="M0 0 L10 10" fill="red" style="stroke: none" stroke-width="0.2" />')));
+    expect(svg.getAttribute('fill')).toBe('none');
+    expect(svg.getAttribute('stroke')).toBe('#000000');
+    expect(svg.getAttribute('stroke-width')).toBe('3');
+    const path = svg.querySelector('path');
+    expect(path?.hasAttribute('fill')).toBe(false);
+    expect(path?.hasAttribute('style')).toBe(false);
+    expect(path?.hasAttribute('stroke-width')).toBe(false);
+  });
+
+  it('sizes the picture from its viewBox or its width and height', () => {
+    const fromViewBox = parse(sanitizeSvg(wrap('<circle r="5" />', 'viewBox="0 0 200 100"')));
+    expect(fromViewBox.getAttribute('width')).toBe('200');
+    expect(fromViewBox.getAttribute('height')).toBe('100');
+
+    const fromSize = parse(sanitizeSvg(wrap('<circle r="5" />', 'width="300px" height="150"')));
+    expect(fromSize.getAttribute('viewBox')).toBe('0 0 300 150');
+  });
+
+  it('rejects markup that is not a usable SVG', () => {
+    expect(reasonOf('')).toBe('empty');
+    expect(reasonOf('<svg')).toBe('invalid');
+    expect(reasonOf('<html xmlns="http://www.w3.org/1999/xhtml"></html>')).toBe('not-svg');
+    expect(reasonOf(wrap('<script>alert(1)</script>'))).toBe('empty');
+    expect(reasonOf(wrap(`<path d="${'M0 0 '.repeat(500000)}" />`))).toBe('too-large');
+  });
+});
+
+describe('isSvgFile', () => {
+  it('recognizes SVGs by type or extension', () => {
+    expect(isSvgFile(new File([''], 'page.svg'))).toBe(true);
+    expect(isSvgFile(new File([''], 'page', { type: 'image/svg+xml' }))).toBe(true);
+    expect(isSvgFile(new File([''], 'photo.png', { type: 'image/png' }))).toBe(false);
+  });
+});
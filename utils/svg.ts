@@ -0,0 +1,161 @@
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Bigger than any sensible coloring page, keeps a runaway answer from freezing the parser
+const MAX_SVG_LENGTH = 2 * 1024 * 1024;
+
+// Outline width used when the picture doesn't set one
+const DEFAULT_STROKE_WIDTH = 3;
+
+// Elements kept in a coloring page, everything else is dropped with its children
+const ALLOWED_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+  'text', 'tspan', 'clipPath',
+]);
+
+// Elements that actually draw something
+const SHAPE_ELEMENTS = new Set(['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text', 'use']);
+
+// Presentation attributes replaced by the forced outline style
+const STYLE_ATTRIBUTES = [
+  'style', 'class', 'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-opacity', 'opacity',
+  'color', 'filter', 'mask',
+];
+
+export type SvgErrorReason = 'too-large' | 'invalid' | 'not-svg' | 'empty';
+
+/**
+ * Why an SVG can't be used as a coloring page. `message` is readable by grown-ups,
+ * `reason` lets callers decide what to do, e.g. retry on `invalid`.
+ */
+export class SvgError extends Error {
+  readonly reason: SvgErrorReason;
+
+  constructor(reason: SvgErrorReason, message: string) {
+    super(message);
+    this.name = 'SvgError';
+    this.reason = reason;
+  }
+}
+
+const parseLength = (value: string | null): number | null => {
+  if (!value) return null;
+  const match = value.trim().match(/^([\d.]+)(px)?$/);
+  const n = match ? parseFloat(match[1]) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+const parseViewBox = (value: string | null): [number, number, number, number] | null => {
+  if (!value) return null;
+  const parts = value.trim().split(/[\s,]+/).map(Number);
+  if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n)) || parts[2] <= 0 || parts[3] <= 0) return null;
+  return parts as [number, number, number, number];
+};
+
+// Only links to something inside the same document are safe
+const isLocalReference = (value: string) => value.trim().startsWith('#');
+
+const cleanElement = (element: Element) => {
+  [...element.attributes].forEach((attr) => {
+    const name = attr.name.toLowerCase();
+    const isLink = attr.localName === 'href' || name === 'xlink:href' || name === 'src';
+    if (
+      name.startsWith('on') ||
+      STYLE_ATTRIBUTES.includes(name) ||
+      (isLink && !isLocalReference(attr.value)) ||
+      // url(...) in any other attribute could reach outside the document
+      (/url\s*\(/i.test(attr.value) && !/url\s*\(\s*['"]?#/i.test(attr.value))
+    ) {
+      element.removeAttributeNode(attr);
+    }
+  });
+
+  // Outlines must stay visible, drop hairlines and invalid widths
+  const strokeWidth = element.getAttribute('stroke-width');
+  if (strokeWidth !== null && !(parseFloat(strokeWidth) >= 1)) element.removeAttribute('stroke-width');
+
+  [...element.children].forEach((child) => {
+    if (child.namespaceURI !== SVG_NS || !ALLOWED_ELEMENTS.has(child.localName)) child.remove();
+    else cleanElement(child);
+  });
+};
+
+/**
+ * Measures the drawing when the SVG has neither a viewBox nor a size.
+ */
+const measureBounds = (svg: SVGSVGElement): [number, number, number, number] | null => {
+  const host = document.createElementNS(SVG_NS, 'svg');
+  host.setAttribute('style', 'position:absolute;visibility:hidden;width:0;height:0');
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  host.appendChild(clone);
+  document.body.appendChild(host);
+  try {
+    const box = clone.getBBox();
+    if (box.width <= 0 || box.height <= 0) return null;
+    const pad = DEFAULT_STROKE_WIDTH;
+    return [box.x - pad, box.y - pad, box.width + pad * 2, box.height + pad * 2];
+  } catch (e) {
+    return null;
+  } finally {
+    host.remove();
+  }
+};
+
+/**
+ * Makes untrusted SVG markup safe to show as a coloring page.
+ *
+ * Scripts, event handlers, foreignObject and anything that links outside the
+ * document are removed. The result always has a viewBox and a size, and every
+ * shape is drawn as a black outline with no fill so the regions can be colored.
+ * Throws an SvgError if the markup isn't a usable SVG.
+ */
+export const sanitizeSvg = (markup: string): string => {
+  if (markup.length > MAX_SVG_LENGTH) {
+    throw new SvgError('too-large', 'This picture is too big to use as a coloring page.');
+  }
+  if (!markup.trim()) {
+    throw new SvgError('empty', 'This picture is empty.');
+  }
+
+  const parsed = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  if (parsed.getElementsByTagName('parsererror').length > 0) {
+    throw new SvgError('invalid', 'This picture is damaged and could not be read.');
+  }
+  const svg = parsed.documentElement;
+  if (svg.namespaceURI !== SVG_NS || svg.localName !== 'svg') {
+    throw new SvgError('not-svg', 'This file is not an SVG picture.');
+  }
+
+  cleanElement(svg);
+  if (!svg.querySelector([...SHAPE_ELEMENTS].join(','))) {
+    throw new SvgError('empty', 'This picture has nothing to color in.');
+  }
+
+  // A coloring page needs a size, otherwise browsers draw it at 300x150 or not at all
+  let viewBox = parseViewBox(svg.getAttribute('viewBox'));
+  const width = parseLength(svg.getAttribute('width'));
+  const height = parseLength(svg.getAttribute('height'));
+  if (!viewBox && width && height) viewBox = [0, 0, width, height];
+  if (!viewBox) viewBox = measureBounds(svg as unknown as SVGSVGElement);
+  if (!viewBox) {
+    throw new SvgError('empty', 'This picture has nothing to color in.');
+  }
+  svg.setAttribute('viewBox', viewBox.join(' '));
+  if (!width || !height) {
+    svg.setAttribute('width', String(viewBox[2]));
+    svg.setAttribute('height', String(viewBox[3]));
+  }
+
+  // Stroke-only black outlines, inherited by every shape
+  svg.setAttribute('fill', 'none');
+  svg.setAttribute('stroke', '#000000');
+  svg.setAttribute('stroke-linecap', 'round');
+  svg.setAttribute('stroke-linejoin', 'round');
+  if (!svg.hasAttribute('stroke-width')) svg.setAttribute('stroke-width', String(DEFAULT_STROKE_WIDTH));
+
+  return new XMLSerializer().serializeToString(svg);
+};
+
+export const svgToDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+export const isSvgFile = (file: File) => file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
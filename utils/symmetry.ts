@@ -0,0 +1,75 @@
+import { Point, Symmetry, SymmetryMode } from '../types';
+
+export const MIN_RADIAL_SEGMENTS = 3;
+export const MAX_RADIAL_SEGMENTS = 12;
+
+type PointTransform = <T extends Point>(p: T) => T;
+
+/**
+ * Every copy a point is drawn at under the symmetry, the original first.
+ * Mirrors run through `center`; the radial kaleidoscope rotates each segment
+ * and mirrors it within the segment, like a real kaleidoscope.
+ */
+export const getSymmetryTransforms = (symmetry: Symmetry | undefined, center: Point): PointTransform[] => {
+  const identity: PointTransform = (p) => p;
+  if (!symmetry) return [identity];
+
+  const mirrorX: PointTransform = (p) => ({ ...p, x: 2 * center.x - p.x });
+  const mirrorY: PointTransform = (p) => ({ ...p, y: 2 * center.y - p.y });
+
+  switch (symmetry.mode) {
+    case SymmetryMode.HORIZONTAL:
+      return [identity, mirrorX];
+    case SymmetryMode.VERTICAL:
+      return [identity, mirrorY];
+    case SymmetryMode.QUAD:
+      return [identity, mirrorX, mirrorY, (p) => mirrorX(mirrorY(p))];
+    case SymmetryMode.RADIAL: {
+      const segments = Math.min(MAX_RADIAL_SEGMENTS, Math.max(MIN_RADIAL_SEGMENTS, Math.round(symmetry.segments)));
+      const transforms: PointTransform[] = [];
+      for (let i = 0; i < segments; i++) {
+        const angle = (i * 2 * Math.PI) / segments;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const rotate: PointTransform = (p) => {
+          const dx = p.x - center.x;
+          const dy = p.y - center.y;
+          return { ...p, x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+        };
+        transforms.push(rotate, (p) => rotate(mirrorY(p)));
+      }
+      return transforms;
+    }
+    default:
+      return [identity];
+  }
+};
+
+/**
+ * Guide lines in document coordinates, shown on screen only.
+ */
+export const getSymmetryGuides = (symmetry: Symmetry, width: number, height: number): [Point, Point][] => {
+  const cx = width / 2;
+  const cy = height / 2;
+  const vertical: [Point, Point] = [{ x: cx, y: 0 }, { x: cx, y: height }];
+  const horizontal: [Point, Point] = [{ x: 0, y: cy }, { x: width, y: cy }];
+
+  switch (symmetry.mode) {
+    case SymmetryMode.HORIZONTAL:
+      return [vertical];
+    case SymmetryMode.VERTICAL:
+      return [horizontal];
+    case SymmetryMode.QUAD:
+      return [vertical, horizontal];
+    case SymmetryMode.RADIAL: {
+      const segments = Math.min(MAX_RADIAL_SEGMENTS, Math.max(MIN_RADIAL_SEGMENTS, Math.round(symmetry.segments)));
+      const radius = Math.hypot(cx, cy);
+      return Array.from({ length: segments }, (_, i) => {
+        const angle = (i * 2 * Math.PI) / segments - Math.PI / 2;
+        return [{ x: cx, y: cy }, { x: cx + Math.cos(angle) * radius, y: cy + Math.sin(angle) * radius }];
+      });
+    }
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,49 @@
+import { Point } from '../types';
+
+// Maps the drawing sheet into the canvas viewport: screen = sheet * zoom + (x, y)
+export interface ViewTransform {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+
+export const IDENTITY_VIEW: ViewTransform = { zoom: 1, x: 0, y: 0 };
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/**
+ * Zooms to `zoom` while keeping the sheet point under `focus` (viewport coordinates) in place.
+ */
+export const zoomAt = (view: ViewTransform, focus: Point, zoom: number): ViewTransform => {
+  const next = clampZoom(zoom);
+  const ratio = next / view.zoom;
+  return {
+    zoom: next,
+    x: focus.x - (focus.x - view.x) * ratio,
+    y: focus.y - (focus.y - view.y) * ratio,
+  };
+};
+
+/**
+ * View that shows the whole sheet centered in the viewport.
+ */
+export const fitView = (
+  viewportWidth: number,
+  viewportHeight: number,
+  sheetWidth: number,
+  sheetHeight: number
+): ViewTransform => {
+  if (sheetWidth <= 0 || sheetHeight <= 0) return IDENTITY_VIEW;
+  const zoom = clampZoom(Math.min(viewportWidth / sheetWidth, viewportHeight / sheetHeight));
+  return {
+    zoom,
+    x: (viewportWidth - sheetWidth * zoom) / 2,
+    y: (viewportHeight - sheetHeight * zoom) / 2,
+  };
+};
+
+export const toCssTransform = (view: ViewTransform) =>
+  `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`;
@@ -0,0 +1,61 @@
+export interface WorkerRequest {
+  id: number;
+}
+
+export interface WorkerResponse {
+  id: number;
+  error?: string;
+}
+
+/**
+ * One worker, started on first use and shared by every request, with replies
+ * matched to requests by id. The returned function posts a request, or returns
+ * null where workers aren't available so the caller does the work itself.
+ * If the worker fails, pending requests are rejected and later ones get null.
+ */
+export const createWorkerClient = <Request extends WorkerRequest, Response extends WorkerResponse>(
+  label: string,
+  createWorker: () => Worker
+) => {
+  let worker: Worker | null = null;
+  let workerFailed = false;
+  let nextId = 0;
+  const pending = new Map<number, { resolve: (response: Response) => void; reject: (error: Error) => void }>();
+
+  const getWorker = (): Worker | null => {
+    if (worker || workerFailed || typeof Worker === 'undefined') return worker;
+    try {
+      worker = createWorker();
+      worker.onmessage = (e: MessageEvent<Response>) => {
+        const request = pending.get(e.data.id);
+        if (!request) return;
+        pending.delete(e.data.id);
+        if (e.data.error) request.reject(new Error(e.data.error));
+        else request.resolve(e.data);
+      };
+      worker.onerror = (e) => {
+        console.error(`${label} worker failed, running on the main thread instead`, e);
+        workerFailed = true;
+        worker?.terminate();
+        worker = null;
+        pending.forEach((request) => request.reject(new Error(`${label} worker failed`)));
+        pending.clear();
+      };
+    } catch (e) {
+      workerFailed = true;
+      worker = null;
+    }
+    return worker;
+  };
+
+  return (message: Omit<Request, 'id'>, transfer: Transferable[]): Promise<Response> | null => {
+    const target = getWorker();
+    if (!target) return null;
+
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      target.postMessage({ ...message, id }, transfer);
+    });
+  };
+};
@@ -10,9 +10,14 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      // Missing variables become empty strings, so the app still starts without them
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY ?? ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY ?? ''),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY ?? ''),
+        'process.env.COLORING_PROVIDER': JSON.stringify(env.COLORING_PROVIDER ?? ''),
+        'process.env.COLORING_MODEL': JSON.stringify(env.COLORING_MODEL ?? ''),
+        'process.env.COLORING_ENDPOINT': JSON.stringify(env.COLORING_ENDPOINT ?? '')
       },
       resolve: {
         alias: {